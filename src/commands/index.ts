@@ -1,8 +1,18 @@
 // This file exports functions that define the commands available in the extension.
 
 import * as vscode from 'vscode';
-import { GitCommitProvider } from '../providers/gitCommitProvider';
+import * as path from 'path';
+import { GitCommitProvider, CommitTreeItem, GroupTreeItem } from '../providers/gitCommitProvider';
+import { GitContentProvider } from '../providers/gitContentProvider';
+import { CommitInfo, FileChange, getStandupData, getMyAuthorFilter } from '../utils/gitUtils';
 import { ReportViewProvider } from '../providers/reportViewProvider';
+import { ReportHistoryProvider, ReportHistoryTreeItem, ReportHistoryContentProvider } from '../providers/reportHistoryProvider';
+import { LocalModelReportGenerator } from '../utils/localModels';
+import { getAIProviderConfigs, AIProviderConfig } from '../utils/aiProviders';
+import { storeApiKey, deleteApiKey, getApiKey } from '../utils/secretUtils';
+import { ReportTemplate, getReportTemplates } from '../utils/templateUtils';
+import { exportReport } from '../utils/exportUtils';
+import { ReportHistory, toExportableReport } from '../utils/reportHistory';
 
 /**
  * Register all commands for the extension
@@ -10,8 +20,10 @@ import { ReportViewProvider } from '../providers/reportViewProvider';
  */
 export function registerCommands(context: vscode.ExtensionContext): void {
     // Create providers
-    const gitCommitProvider = new GitCommitProvider();
+    const gitCommitProvider = new GitCommitProvider(context.workspaceState);
     const reportViewProvider = new ReportViewProvider(context.extensionUri);
+    const reportHistory = new ReportHistory(context.globalStorageUri);
+    const reportHistoryProvider = new ReportHistoryProvider(reportHistory);
     
     // Register the tree data provider for commits
     const commitExplorer = vscode.window.createTreeView('commitExplorer', {
@@ -26,6 +38,44 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         { webviewOptions: { retainContextWhenHidden: true } }
     );
     
+    // Register the tree data provider for previously generated reports
+    const reportHistoryView = vscode.window.createTreeView('reportHistory', {
+        treeDataProvider: reportHistoryProvider
+    });
+    
+    // Serve saved reports for the report comparison editor
+    const historyContentProviderRegistration = vscode.workspace.registerTextDocumentContentProvider(
+        ReportHistoryContentProvider.scheme,
+        new ReportHistoryContentProvider(reportHistory)
+    );
+    
+    // Keep every completed report in the history
+    reportViewProvider.onDidGenerateReport(report => {
+        reportHistory.add(report).catch(error => {
+            vscode.window.showWarningMessage(`Failed to save the report to the report history: ${error}`);
+        });
+    });
+    
+    // Keep edits made to a report in its history entry
+    reportViewProvider.onDidEditReport(report => {
+        reportHistory.updateContent(report).catch(error => {
+            vscode.window.showWarningMessage(`Failed to save the edited report to the report history: ${error}`);
+        });
+    });
+    
+    // Bring back the most recent report after a reload
+    reportHistory.getEntries().then(entries => {
+        if (entries.length > 0 && !reportViewProvider.getReportText()) {
+            reportViewProvider.showReport(toExportableReport(entries[0]));
+        }
+    });
+    
+    // Serve file revisions for the commit diff editor
+    const gitContentProviderRegistration = vscode.workspace.registerTextDocumentContentProvider(
+        GitContentProvider.scheme,
+        new GitContentProvider()
+    );
+    
     // Register commands
     const commands: { [key: string]: (...args: any[]) => any } = {
         'report-pilot.showCommits': async () => {
@@ -36,46 +86,263 @@ export function registerCommands(context: vscode.ExtensionContext): void {
             vscode.window.showInformationMessage('Commits refreshed');
         },
         'report-pilot.generateReport': async () => {
-            const commits = gitCommitProvider.getCommits();
-            if (commits.length === 0) {
+            if (gitCommitProvider.getCommits().length === 0) {
                 vscode.window.showWarningMessage('No commits found for the selected time period.');
                 return;
             }
             
+            // Only the commits matching the filter and left included in the Commits view go into the report
+            const commits = gitCommitProvider.getSelectedCommits();
+            if (gitCommitProvider.getFilteredCommits().length === 0) {
+                vscode.window.showWarningMessage('No commits match the current filter.');
+                return;
+            }
+            if (commits.length === 0) {
+                vscode.window.showWarningMessage('All commits are excluded from the report. Include at least one commit first.');
+                return;
+            }
+            
+            // Let the user choose a report template when any are defined
+            const template = await pickReportTemplate();
+            if (template === undefined) {
+                return;
+            }
+            
             vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: "Generating AI Work Report",
-                cancellable: false
-            }, async (progress) => {
+                cancellable: true
+            }, async (progress, token) => {
                 progress.report({ message: "Analyzing commits..." });
                 
                 // Use the AI-powered report generator
-                await reportViewProvider.generateAIReport(commits);
-                vscode.window.showInformationMessage('AI-powered work report generated!');
+                const completed = await reportViewProvider.generateAIReport(
+                    commits,
+                    token,
+                    template || undefined,
+                    gitCommitProvider.getTimeSpanLabel()
+                );
+                if (completed) {
+                    vscode.window.showInformationMessage('AI-powered work report generated!');
+                } else if (token.isCancellationRequested) {
+                    vscode.window.showInformationMessage('Report generation stopped.');
+                }
             });
         },
+        'report-pilot.generateStandup': async () => {
+            vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: "Generating Daily Standup",
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: "Collecting recent commits and uncommitted changes..." });
+                
+                // Commits excluded in the Commits view stay out of the standup too
+                const standup = await getStandupData(await getMyAuthorFilter(), token);
+                standup.yesterday = standup.yesterday.filter(commit => gitCommitProvider.isCommitIncluded(commit));
+                standup.today = standup.today.filter(commit => gitCommitProvider.isCommitIncluded(commit));
+                if (token.isCancellationRequested) {
+                    return;
+                }
+                
+                const completed = await reportViewProvider.generateAIStandup(standup, token);
+                if (completed) {
+                    vscode.window.showInformationMessage('Daily standup generated!');
+                } else if (token.isCancellationRequested) {
+                    vscode.window.showInformationMessage('Standup generation stopped.');
+                }
+            });
+        },
+        'report-pilot.showOnlyMyCommits': async () => {
+            await gitCommitProvider.setOnlyMyCommits(true);
+        },
+        'report-pilot.showAllAuthors': async () => {
+            await gitCommitProvider.setOnlyMyCommits(false);
+        },
+        'report-pilot.groupBy': async () => {
+            await gitCommitProvider.changeGrouping();
+        },
+        'report-pilot.filterCommits': async () => {
+            await gitCommitProvider.changeFilter();
+        },
+        'report-pilot.clearCommitFilter': () => {
+            gitCommitProvider.setFilter(undefined);
+        },
+        'report-pilot.includeCommit': async (item: CommitTreeItem | GroupTreeItem) => {
+            await gitCommitProvider.setCommitsIncluded(item instanceof CommitTreeItem ? [item.commit] : item.commits, true);
+        },
+        'report-pilot.excludeCommit': async (item: CommitTreeItem | GroupTreeItem) => {
+            await gitCommitProvider.setCommitsIncluded(item instanceof CommitTreeItem ? [item.commit] : item.commits, false);
+        },
+        'report-pilot.excludeNoiseCommits': async () => {
+            const count = await gitCommitProvider.excludeNoiseCommits();
+            vscode.window.showInformationMessage(count > 0
+                ? `Excluded ${count} WIP, fixup and merge commit${count === 1 ? '' : 's'} from the report.`
+                : 'No WIP, fixup or merge commits found.');
+        },
+        'report-pilot.includeAllCommits': async () => {
+            await gitCommitProvider.setCommitsIncluded(gitCommitProvider.getCommits(), true);
+        },
         'report-pilot.copyReport': async () => {
             await vscode.env.clipboard.writeText(reportViewProvider.getReportText());
             vscode.window.showInformationMessage('Work report copied to clipboard!');
         },
         'report-pilot.viewReportInEditor': async () => {
-            const reportText = reportViewProvider.getReportText();
-            if (!reportText) {
+            await reportViewProvider.openInEditor();
+        },
+        'report-pilot.exportReport': async () => {
+            const report = reportViewProvider.getExportableReport();
+            if (!report) {
                 vscode.window.showInformationMessage('No report has been generated yet.');
                 return;
             }
             
-            // Create a temporary document and show it
-            const doc = await vscode.workspace.openTextDocument({
-                content: reportText,
-                language: 'markdown'
+            try {
+                const target = await exportReport(report);
+                if (!target) {
+                    return;
+                }
+                
+                const action = await vscode.window.showInformationMessage(`Report exported to ${target.fsPath}`, 'Open');
+                if (action === 'Open') {
+                    // HTML reads best in the browser; the other formats open in the editor
+                    if (target.fsPath.endsWith('.html')) {
+                        await vscode.env.openExternal(target);
+                    } else {
+                        await vscode.window.showTextDocument(target);
+                    }
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to export report: ${error}`);
+            }
+        },
+        'report-pilot.openHistoryReport': async (item: ReportHistoryTreeItem) => {
+            if (reportViewProvider.showReport(toExportableReport(item.entry))) {
+                await vscode.commands.executeCommand('reportView.focus');
+            }
+        },
+        'report-pilot.copyHistoryReport': async (item: ReportHistoryTreeItem) => {
+            await vscode.env.clipboard.writeText(item.entry.content);
+            vscode.window.showInformationMessage('Report copied to clipboard!');
+        },
+        'report-pilot.renameHistoryReport': async (item: ReportHistoryTreeItem) => {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Enter a name for the report (leave empty to use the default title)',
+                value: item.entry.name || item.entry.title
             });
+            if (name !== undefined) {
+                await reportHistory.rename(item.entry.id, name === item.entry.title ? '' : name);
+            }
+        },
+        'report-pilot.deleteHistoryReport': async (item: ReportHistoryTreeItem) => {
+            const confirmation = await vscode.window.showWarningMessage(
+                `Delete "${item.entry.name || item.entry.title}" from the report history?`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirmation === 'Delete') {
+                await reportHistory.delete(item.entry.id);
+            }
+        },
+        'report-pilot.compareHistoryReport': async (item: ReportHistoryTreeItem) => {
+            const others = (await reportHistory.getEntries()).filter(entry => entry.id !== item.entry.id);
+            if (others.length === 0) {
+                vscode.window.showInformationMessage('There are no other reports to compare with.');
+                return;
+            }
+            
+            const selection = await vscode.window.showQuickPick(
+                others.map(entry => ({
+                    label: entry.name || entry.title,
+                    description: new ReportHistoryTreeItem(entry).description as string,
+                    entry
+                })),
+                { placeHolder: `Compare "${item.entry.name || item.entry.title}" with...` }
+            );
+            if (!selection) {
+                return;
+            }
             
-            await vscode.window.showTextDocument(doc, { preview: true });
+            // Show the older report on the left
+            const [older, newer] = [item.entry, selection.entry].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                ReportHistoryContentProvider.toUri(older),
+                ReportHistoryContentProvider.toUri(newer),
+                `${older.name || older.title} ↔ ${newer.name || newer.title}`
+            );
+        },
+        'report-pilot.clearReportHistory': async () => {
+            const confirmation = await vscode.window.showWarningMessage(
+                'Delete all reports from the report history?',
+                { modal: true },
+                'Delete All'
+            );
+            if (confirmation === 'Delete All') {
+                await reportHistory.clear();
+            }
         },
         'report-pilot.clearReport': async () => {
             reportViewProvider.clearReport();
             vscode.window.showInformationMessage('Report cleared. Ready to generate a new report.');
+        },
+        'report-pilot.openFileDiff': async (commit: CommitInfo, change: FileChange) => {
+            // Added files have no parent version and deleted files have no commit version
+            const parentRef = change.status === 'A' ? '' : `${commit.hash}^`;
+            const commitRef = change.status === 'D' ? '' : commit.hash;
+            const shortHash = commit.hash.substring(0, 7);
+            
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                GitContentProvider.toUri(change.oldPath || change.path, parentRef, commit.repositoryPath),
+                GitContentProvider.toUri(change.path, commitRef, commit.repositoryPath),
+                `${path.basename(change.path)} (${shortHash}^ ↔ ${shortHash})`,
+                { preview: true }
+            );
+        },
+        'report-pilot.selectLocalModel': async () => {
+            try {
+                const model = await new LocalModelReportGenerator().pickModel();
+                if (model) {
+                    vscode.window.showInformationMessage(`Local model set to ${model}`);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to list local models: ${error instanceof Error ? error.message : error}`);
+            }
+        },
+        'report-pilot.setApiKey': async (providerId?: string) => {
+            const provider = await pickAIProvider(providerId, 'Select the AI provider to set an API key for');
+            if (!provider) {
+                return;
+            }
+            
+            const apiKey = await vscode.window.showInputBox({
+                prompt: `Enter the API key for ${provider.label || provider.id}`,
+                password: true,
+                ignoreFocusOut: true,
+                validateInput: (input) => input.trim() ? null : 'API key cannot be empty'
+            });
+            
+            if (!apiKey) {
+                return;
+            }
+            
+            await storeApiKey(provider.id, apiKey.trim());
+            vscode.window.showInformationMessage(`API key for ${provider.label || provider.id} saved to secure storage.`);
+        },
+        'report-pilot.clearApiKey': async (providerId?: string) => {
+            const provider = await pickAIProvider(providerId, 'Select the AI provider to clear the API key for');
+            if (!provider) {
+                return;
+            }
+            
+            if (!await getApiKey(provider.id)) {
+                vscode.window.showInformationMessage(`No API key is stored for ${provider.label || provider.id}.`);
+                return;
+            }
+            
+            await deleteApiKey(provider.id);
+            vscode.window.showInformationMessage(`API key for ${provider.label || provider.id} cleared.`);
         }
     };
     
@@ -85,6 +352,73 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         context.subscriptions.push(disposable);
     }
     
+    // Reload commits when the author filter settings change
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('reportPilot.onlyMyCommits') || event.affectsConfiguration('reportPilot.authorAliases')) {
+            gitCommitProvider.onAuthorSettingsChanged();
+        }
+    }));
+    
     // Register the webview view provider
-    context.subscriptions.push(commitExplorer, reportViewProviderRegistration);
-}
\ No newline at end of file
+    context.subscriptions.push(
+        commitExplorer,
+        reportViewProviderRegistration,
+        reportViewProvider,
+        gitContentProviderRegistration,
+        reportHistoryView,
+        historyContentProviderRegistration
+    );
+}
+
+/**
+ * Resolve a configured AI provider by id, or let the user pick one
+ */
+async function pickAIProvider(providerId: string | undefined, placeHolder: string): Promise<AIProviderConfig | undefined> {
+    const providers = getAIProviderConfigs();
+    if (typeof providerId === 'string') {
+        const provider = providers.find(p => p.id === providerId);
+        if (provider) {
+            return provider;
+        }
+    }
+    
+    if (providers.length === 1) {
+        return providers[0];
+    }
+    
+    const selection = await vscode.window.showQuickPick(
+        providers.map(provider => ({
+            label: provider.label || provider.id,
+            description: provider.type,
+            provider
+        })),
+        { placeHolder }
+    );
+    
+    return selection?.provider;
+}
+
+/**
+ * Ask which report template to use.
+ * Resolves to null for the built-in layout and undefined when the user cancels.
+ */
+async function pickReportTemplate(): Promise<ReportTemplate | null | undefined> {
+    const templates = getReportTemplates();
+    if (templates.length === 0) {
+        return null;
+    }
+    
+    const selection = await vscode.window.showQuickPick(
+        [
+            { label: 'Default Report', description: 'Built-in work report layout', template: null },
+            ...templates.map(template => ({
+                label: template.label,
+                description: template.description,
+                template
+            }))
+        ],
+        { placeHolder: 'Select a report template' }
+    );
+    
+    return selection ? selection.template : undefined;
+}
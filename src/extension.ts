@@ -2,12 +2,19 @@
 
 import * as vscode from 'vscode';
 import { registerCommands } from './commands/index';
+import { initializeSecretStorage, migrateApiKeySettings } from './utils/secretUtils';
 
 /**
  * This method is called when the extension is activated
  * @param context The extension context
  */
 export function activate(context: vscode.ExtensionContext) {
+    // API keys are kept in secret storage; move any left in plaintext settings
+    initializeSecretStorage(context.secrets);
+    migrateApiKeySettings().catch(error => {
+        console.error('[Report Pilot] Failed to migrate API keys to secret storage:', error);
+    });
+    
     // Register commands, views, and providers
     registerCommands(context);
 
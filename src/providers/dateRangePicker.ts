@@ -0,0 +1,548 @@
+import * as vscode from 'vscode';
+import dayjs from 'dayjs';
+import { DateRange, TimeSpan, getCommitCountsByDay, getDateRange, getDateRangeSettings, parseRelativeDateRange } from '../utils/gitUtils';
+import { getContentSecurityPolicy, getNonce } from '../utils/markdownUtils';
+
+// Ranges offered as one-click presets next to the calendar
+const PRESETS: { label: string; timeSpan: TimeSpan; days?: number }[] = [
+    { label: 'Today', timeSpan: 'today' },
+    { label: 'Yesterday', timeSpan: 'yesterday' },
+    { label: 'This Week', timeSpan: 'thisWeek' },
+    { label: 'Last Week', timeSpan: 'lastWeek' },
+    { label: 'Last 7 Days', timeSpan: 'lastNDays', days: 7 },
+    { label: 'Last 30 Days', timeSpan: 'lastNDays', days: 30 },
+    { label: 'This Month', timeSpan: 'thisMonth' },
+    { label: 'Last Month', timeSpan: 'lastMonth' },
+    { label: 'This Quarter', timeSpan: 'thisQuarter' },
+    { label: 'Last Quarter', timeSpan: 'lastQuarter' },
+    { label: 'This Sprint', timeSpan: 'thisSprint' },
+    { label: 'Last Sprint', timeSpan: 'lastSprint' }
+];
+
+/**
+ * Show a calendar for picking a custom date range. Days with commits are highlighted,
+ * and ranges can also be typed as expressions such as "last 10 days".
+ * @returns the picked range, or undefined if the picker was closed
+ */
+export function pickDateRange(author?: string | string[], initial?: DateRange): Promise<DateRange | undefined> {
+    return new Promise(resolve => {
+        const panel = vscode.window.createWebviewPanel(
+            'reportPilot.dateRangePicker',
+            'Select Date Range',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, localResourceRoots: [] }
+        );
+
+        let result: DateRange | undefined;
+        let disposed = false;
+        panel.onDidDispose(() => {
+            disposed = true;
+            resolve(result);
+        });
+
+        const post = (message: object) => {
+            if (!disposed) {
+                panel.webview.postMessage(message);
+            }
+        };
+
+        panel.webview.onDidReceiveMessage(async message => {
+            switch (message.command) {
+                case 'loadMonth': {
+                    // Highlight the days of the shown month that have commits
+                    const month = dayjs(new Date(message.year, message.month, 1));
+                    const counts = await getCommitCountsByDay({ from: month.toDate(), to: month.endOf('month').toDate() }, author);
+                    post({ command: 'commitDays', counts });
+                    break;
+                }
+
+                case 'parseExpression': {
+                    try {
+                        const range = parseRelativeDateRange(message.text);
+                        post(range
+                            ? { command: 'selectRange', from: formatDay(range.from), to: formatDay(range.to) }
+                            : { command: 'error', message: `"${message.text}" is not a date range. Try "last 10 days", "this month" or "2024-01-01 to 2024-01-31".` });
+                    } catch (error) {
+                        post({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+                    }
+                    break;
+                }
+
+                case 'apply': {
+                    const range = parseRelativeDateRange(`${message.from} to ${message.to}`);
+                    if (!range) {
+                        post({ command: 'error', message: 'Pick a valid start and end date. The end date cannot be before the start date.' });
+                        break;
+                    }
+
+                    result = range;
+                    panel.dispose();
+                    break;
+                }
+
+                case 'cancel':
+                    panel.dispose();
+                    break;
+            }
+        });
+
+        panel.webview.html = getPickerHtml(panel.webview, initial);
+    });
+}
+
+/**
+ * Format a date as the YYYY-MM-DD day used by the picker
+ */
+function formatDay(date: Date): string {
+    return dayjs(date).format('YYYY-MM-DD');
+}
+
+/**
+ * Presets that can be computed with the current settings; sprints need a sprint start date
+ */
+function getPresetRanges(): { label: string; from: string; to: string }[] {
+    const settings = getDateRangeSettings();
+    const presets: { label: string; from: string; to: string }[] = [];
+
+    for (const preset of PRESETS) {
+        try {
+            const range = getDateRange(preset.timeSpan, { ...settings, days: preset.days || settings.days });
+            presets.push({ label: preset.label, from: formatDay(range.from), to: formatDay(range.to) });
+        } catch (error) {
+            // Sprint presets are left out until a sprint start date is set
+        }
+    }
+
+    return presets;
+}
+
+/**
+ * Generate the HTML for the date range picker
+ */
+function getPickerHtml(webview: vscode.Webview, initial?: DateRange): string {
+    const nonce = getNonce();
+    const state = {
+        presets: getPresetRanges(),
+        weekStartDay: getDateRangeSettings().weekStartDay || 0,
+        today: formatDay(new Date()),
+        from: initial ? formatDay(initial.from) : undefined,
+        to: initial ? formatDay(initial.to) : undefined
+    };
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Select Date Range</title>
+        <style nonce="${nonce}">
+            body {
+                font-family: var(--vscode-font-family);
+                color: var(--vscode-editor-foreground);
+                padding: 20px;
+            }
+            .picker {
+                display: flex;
+                gap: 24px;
+                flex-wrap: wrap;
+            }
+            .calendar {
+                width: 300px;
+            }
+            .calendar-header {
+                display: flex;
+                align-items: center;
+                justify-content: space-between;
+                margin-bottom: 8px;
+                font-weight: bold;
+            }
+            .grid {
+                display: grid;
+                grid-template-columns: repeat(7, 1fr);
+                gap: 2px;
+            }
+            .weekday {
+                text-align: center;
+                font-size: 11px;
+                color: var(--vscode-descriptionForeground);
+                padding: 4px 0;
+            }
+            .day {
+                position: relative;
+                height: 34px;
+                border: 1px solid transparent;
+                border-radius: 4px;
+                background: none;
+                color: inherit;
+                font: inherit;
+                cursor: pointer;
+            }
+            .day:hover {
+                background-color: var(--vscode-list-hoverBackground);
+            }
+            .day.today {
+                border-color: var(--vscode-focusBorder);
+            }
+            .day.has-commits {
+                font-weight: bold;
+            }
+            .day.has-commits::after {
+                content: '';
+                position: absolute;
+                left: 50%;
+                bottom: 3px;
+                width: 4px;
+                height: 4px;
+                margin-left: -2px;
+                border-radius: 50%;
+                background-color: var(--vscode-charts-green, var(--vscode-textLink-foreground));
+            }
+            .day.in-range {
+                background-color: var(--vscode-list-inactiveSelectionBackground);
+            }
+            .day.range-start, .day.range-end {
+                background-color: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+            .sidebar {
+                display: flex;
+                flex-direction: column;
+                gap: 12px;
+                min-width: 240px;
+            }
+            .field {
+                display: flex;
+                flex-direction: column;
+                gap: 4px;
+            }
+            .field-row {
+                display: flex;
+                gap: 8px;
+            }
+            label {
+                font-size: 12px;
+                color: var(--vscode-descriptionForeground);
+            }
+            input {
+                padding: 4px 6px;
+                color: var(--vscode-input-foreground);
+                background-color: var(--vscode-input-background);
+                border: 1px solid var(--vscode-input-border, transparent);
+                font: inherit;
+            }
+            input:focus {
+                outline: 1px solid var(--vscode-focusBorder);
+            }
+            button.action {
+                background-color: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+                border: none;
+                padding: 4px 10px;
+                border-radius: 4px;
+                cursor: pointer;
+            }
+            button.action:hover {
+                background-color: var(--vscode-button-secondaryHoverBackground);
+            }
+            button.primary {
+                background-color: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+            button.primary:hover {
+                background-color: var(--vscode-button-hoverBackground);
+            }
+            button:disabled {
+                opacity: 0.5;
+                cursor: default;
+            }
+            .presets {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 6px;
+            }
+            .summary {
+                font-size: 13px;
+            }
+            .error {
+                color: var(--vscode-errorForeground);
+                font-size: 12px;
+            }
+            .hidden {
+                display: none;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="picker">
+            <div class="calendar">
+                <div class="calendar-header">
+                    <button class="action" id="previousMonth" title="Previous Month">&lsaquo;</button>
+                    <span id="monthTitle"></span>
+                    <button class="action" id="nextMonth" title="Next Month">&rsaquo;</button>
+                </div>
+                <div class="grid" id="grid"></div>
+            </div>
+
+            <div class="sidebar">
+                <div class="field">
+                    <label for="expression">Type a range</label>
+                    <div class="field-row">
+                        <input id="expression" placeholder="e.g. last 10 days">
+                        <button class="action" id="expressionBtn">Go</button>
+                    </div>
+                </div>
+                <div class="field-row">
+                    <div class="field">
+                        <label for="fromInput">From</label>
+                        <input id="fromInput" placeholder="YYYY-MM-DD" size="11">
+                    </div>
+                    <div class="field">
+                        <label for="toInput">To</label>
+                        <input id="toInput" placeholder="YYYY-MM-DD" size="11">
+                    </div>
+                </div>
+                <div class="field">
+                    <label>Presets</label>
+                    <div class="presets" id="presets"></div>
+                </div>
+                <div class="summary" id="summary"></div>
+                <div class="error hidden" id="error"></div>
+                <div class="field-row">
+                    <button class="action primary" id="applyBtn">Show Commits</button>
+                    <button class="action" id="cancelBtn">Cancel</button>
+                </div>
+            </div>
+        </div>
+
+        <script nonce="${nonce}">
+            (function() {
+                const vscode = acquireVsCodeApi();
+                const state = ${JSON.stringify(state).replace(/</g, '\\u003c')};
+                const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+                const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+                const commitCounts = {};
+                const requestedMonths = new Set();
+
+                const grid = document.getElementById('grid');
+                const fromInput = document.getElementById('fromInput');
+                const toInput = document.getElementById('toInput');
+                const expression = document.getElementById('expression');
+                const summary = document.getElementById('summary');
+                const errorText = document.getElementById('error');
+                const applyBtn = document.getElementById('applyBtn');
+
+                let from = state.from;
+                let to = state.to;
+                let view = parseDay(from || state.today);
+
+                function pad(value) {
+                    return value < 10 ? '0' + value : String(value);
+                }
+
+                function formatDay(date) {
+                    return date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+                }
+
+                // Parse YYYY-MM-DD, rejecting days that do not exist such as 2024-02-30
+                function parseDay(text) {
+                    if (!/^\\d{4}-\\d{2}-\\d{2}$/.test(text || '')) {
+                        return undefined;
+                    }
+                    const parts = text.split('-').map(Number);
+                    const date = new Date(parts[0], parts[1] - 1, parts[2]);
+                    return formatDay(date) === text ? date : undefined;
+                }
+
+                function showError(message) {
+                    errorText.textContent = message || '';
+                    errorText.classList.toggle('hidden', !message);
+                }
+
+                function showMonth(day) {
+                    const date = parseDay(day);
+                    if (date) {
+                        view = date;
+                    }
+                }
+
+                function render() {
+                    const year = view.getFullYear();
+                    const month = view.getMonth();
+                    document.getElementById('monthTitle').textContent = monthNames[month] + ' ' + year;
+
+                    // Ask the extension which days of this month have commits
+                    const monthKey = year + '-' + month;
+                    if (!requestedMonths.has(monthKey)) {
+                        requestedMonths.add(monthKey);
+                        vscode.postMessage({ command: 'loadMonth', year: year, month: month });
+                    }
+
+                    grid.innerHTML = '';
+                    for (let i = 0; i < 7; i++) {
+                        const weekday = document.createElement('div');
+                        weekday.className = 'weekday';
+                        weekday.textContent = dayNames[(state.weekStartDay + i) % 7];
+                        grid.appendChild(weekday);
+                    }
+
+                    const offset = (new Date(year, month, 1).getDay() - state.weekStartDay + 7) % 7;
+                    for (let i = 0; i < offset; i++) {
+                        grid.appendChild(document.createElement('div'));
+                    }
+
+                    const daysInMonth = new Date(year, month + 1, 0).getDate();
+                    for (let dayOfMonth = 1; dayOfMonth <= daysInMonth; dayOfMonth++) {
+                        const day = formatDay(new Date(year, month, dayOfMonth));
+                        const button = document.createElement('button');
+                        button.className = 'day';
+                        button.textContent = String(dayOfMonth);
+                        button.dataset.day = day;
+
+                        const count = commitCounts[day] || 0;
+                        button.title = count === 0 ? 'No commits' : count + (count === 1 ? ' commit' : ' commits');
+                        button.classList.toggle('has-commits', count > 0);
+                        button.classList.toggle('today', day === state.today);
+                        button.classList.toggle('range-start', day === from);
+                        button.classList.toggle('range-end', day === to);
+                        button.classList.toggle('in-range', !!from && !!to && day > from && day < to);
+                        grid.appendChild(button);
+                    }
+
+                    fromInput.value = from || '';
+                    toInput.value = to || '';
+                    renderSummary();
+                }
+
+                function renderSummary() {
+                    const valid = !!from && !!to && from <= to;
+                    applyBtn.disabled = !valid;
+
+                    if (!from) {
+                        summary.textContent = 'Click the first day of the range.';
+                    } else if (!to) {
+                        summary.textContent = 'Click the last day of the range.';
+                    } else if (valid) {
+                        const days = Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86400000) + 1;
+                        let commits = 0;
+                        Object.keys(commitCounts).forEach(day => {
+                            if (day >= from && day <= to) {
+                                commits += commitCounts[day];
+                            }
+                        });
+                        summary.textContent = days + (days === 1 ? ' day' : ' days') + ', ' + commits + (commits === 1 ? ' commit' : ' commits') + ' in the months shown so far';
+                    } else {
+                        summary.textContent = '';
+                    }
+                }
+
+                function selectRange(newFrom, newTo) {
+                    from = newFrom;
+                    to = newTo;
+                    showError();
+                    showMonth(to || from);
+                    render();
+                }
+
+                // The first click starts a range and the second one ends it
+                grid.addEventListener('click', event => {
+                    const button = event.target.closest('.day');
+                    if (!button) {
+                        return;
+                    }
+
+                    const day = button.dataset.day;
+                    if (!from || to) {
+                        from = day;
+                        to = undefined;
+                    } else if (day < from) {
+                        to = from;
+                        from = day;
+                    } else {
+                        to = day;
+                    }
+                    showError();
+                    render();
+                });
+
+                document.getElementById('previousMonth').addEventListener('click', () => {
+                    view = new Date(view.getFullYear(), view.getMonth() - 1, 1);
+                    render();
+                });
+
+                document.getElementById('nextMonth').addEventListener('click', () => {
+                    view = new Date(view.getFullYear(), view.getMonth() + 1, 1);
+                    render();
+                });
+
+                // Typed dates must be real days, and the range must not end before it starts
+                function onDateInput() {
+                    const fromText = fromInput.value.trim();
+                    const toText = toInput.value.trim();
+                    if ((fromText && !parseDay(fromText)) || (toText && !parseDay(toText))) {
+                        showError('Enter real dates in the YYYY-MM-DD format.');
+                        applyBtn.disabled = true;
+                        return;
+                    }
+                    if (fromText && toText && toText < fromText) {
+                        showError('The end date cannot be before the start date.');
+                        applyBtn.disabled = true;
+                        return;
+                    }
+                    selectRange(fromText || undefined, toText || undefined);
+                }
+                fromInput.addEventListener('change', onDateInput);
+                toInput.addEventListener('change', onDateInput);
+
+                function submitExpression() {
+                    if (expression.value.trim()) {
+                        vscode.postMessage({ command: 'parseExpression', text: expression.value.trim() });
+                    }
+                }
+                document.getElementById('expressionBtn').addEventListener('click', submitExpression);
+                expression.addEventListener('keydown', event => {
+                    if (event.key === 'Enter') {
+                        submitExpression();
+                    }
+                });
+
+                const presets = document.getElementById('presets');
+                state.presets.forEach(preset => {
+                    const button = document.createElement('button');
+                    button.className = 'action';
+                    button.textContent = preset.label;
+                    button.title = preset.from + ' to ' + preset.to;
+                    button.addEventListener('click', () => selectRange(preset.from, preset.to));
+                    presets.appendChild(button);
+                });
+
+                applyBtn.addEventListener('click', () => {
+                    vscode.postMessage({ command: 'apply', from: from, to: to });
+                });
+
+                document.getElementById('cancelBtn').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'cancel' });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.command) {
+                        case 'commitDays':
+                            Object.assign(commitCounts, message.counts);
+                            render();
+                            break;
+                        case 'selectRange':
+                            selectRange(message.from, message.to);
+                            break;
+                        case 'error':
+                            showError(message.message);
+                            break;
+                    }
+                });
+
+                render();
+            })();
+        </script>
+    </body>
+    </html>`;
+}
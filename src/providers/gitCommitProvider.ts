@@ -1,6 +1,37 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import dayjs from 'dayjs'; // Fixed import
-import { CommitInfo, getCommitsByDateRange, getDateRange, isGitRepository, getWorkspacePath, addBranchInfoToCommits } from '../utils/gitUtils';
+import { CommitInfo, DateRange, TimeSpan, getCommitsByDateRange, getDateRange, getDateRangeSettings, getRepositoryPaths, getWorkspacePath, addBranchInfoToCommits, getAllRecentCommits, FileChange, getCommitFileChanges, getMyAuthorFilter, groupCommitsByRepository, categorizeCommitsByType, getPullRequestLabel, estimateWorkTime, formatHours, getTimeEstimateSettings } from '../utils/gitUtils';
+import { CommitFilter, matchesCommitFilter, parseCommitFilter } from '../utils/commitFilter';
+import { addIssueMetadataToCommits, formatIssueLabel } from '../utils/issueUtils';
+import { pickDateRange } from './dateRangePicker';
+
+/**
+ * Ways the commits in the tree can be grouped; levels can be nested, e.g. date then type
+ */
+export type CommitGrouping = 'repository' | 'date' | 'branch' | 'pullRequest' | 'issue' | 'author' | 'type' | 'directory';
+
+const GROUPINGS: Record<CommitGrouping, { label: string; icon: string }> = {
+    repository: { label: 'Repository', icon: 'repo' },
+    date: { label: 'Date', icon: 'calendar' },
+    branch: { label: 'Branch', icon: 'git-branch' },
+    pullRequest: { label: 'Pull Request', icon: 'git-pull-request' },
+    issue: { label: 'Issue', icon: 'issues' },
+    author: { label: 'Author', icon: 'person' },
+    type: { label: 'Type', icon: 'tag' },
+    directory: { label: 'Top-level Directory', icon: 'folder' }
+};
+
+// Group labels for the commit types of categorizeCommitsByType
+const COMMIT_TYPE_LABELS: Record<string, string> = {
+    feature: 'Features',
+    fix: 'Fixes',
+    docs: 'Documentation',
+    refactor: 'Refactoring',
+    test: 'Tests',
+    chore: 'Chores',
+    other: 'Other'
+};
 
 /**
  * Tree item representing a commit in the tree view
@@ -8,7 +39,9 @@ import { CommitInfo, getCommitsByDateRange, getDateRange, isGitRepository, getWo
 export class CommitTreeItem extends vscode.TreeItem {
     constructor(
         public readonly commit: CommitInfo,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly excluded: boolean = false,
+        parentId?: string
     ) {
         // If we have a branch, include it in the label
         const label = commit.branch 
@@ -39,19 +72,135 @@ export class CommitTreeItem extends vscode.TreeItem {
         if (commit.branch) {
             tooltipText += `\nBranch: ${commit.branch}`;
         }
+        if (commit.issueKeys && commit.issueKeys.length > 0) {
+            tooltipText += `\nIssues: ${commit.issueKeys.map(key => formatIssueLabel(key, (commit.issues || []).find(issue => issue.key === key))).join(', ')}`;
+        }
+        if (commit.pullRequest) {
+            tooltipText += `\nPull request: ${getPullRequestLabel(commit.pullRequest)}${commit.pullRequest.squashed ? ' (squashed)' : ''}`;
+        }
+        if (commit.repository) {
+            tooltipText += `\nRepository: ${commit.repository}`;
+        }
+        
+        // Summarize the files touched by the commit
+        const fileChanges = commit.fileChanges || [];
+        if (fileChanges.length > 0) {
+            tooltipText += `\n\n${fileChanges.length} file${fileChanges.length === 1 ? '' : 's'} changed, +${commit.insertions || 0} -${commit.deletions || 0}`;
+            for (const change of fileChanges.slice(0, 10)) {
+                tooltipText += change.binary
+                    ? `\n  ${change.path} (binary)`
+                    : `\n  ${change.path} (+${change.insertions} -${change.deletions})`;
+            }
+            if (fileChanges.length > 10) {
+                tooltipText += `\n  ...and ${fileChanges.length - 10} more`;
+            }
+        }
+        if (excluded) {
+            tooltipText += '\n\nExcluded from reports';
+        }
         this.tooltip = tooltipText;
         
-        // Set description to show the date in the tree view
-        this.description = formattedDate;
+        // Set description to show the date and line counts in the tree view
+        this.description = fileChanges.length > 0
+            ? `${formattedDate}  +${commit.insertions || 0} -${commit.deletions || 0}`
+            : formattedDate;
+        if (excluded) {
+            this.description = `(excluded) ${this.description}`;
+        }
         
-        // Set the commit hash as the identifier
-        this.id = commit.hash;
+        // Set the commit hash as the identifier, scoped to its repository and to its group,
+        // since a commit can appear in several groups (e.g. one per top-level directory)
+        this.id = commit.repositoryPath ? `${commit.repositoryPath}:${commit.hash}` : commit.hash;
+        if (parentId) {
+            this.id = `${parentId}/${this.id}`;
+        }
         
-        // Add the git icon
-        this.iconPath = new vscode.ThemeIcon('git-commit');
+        // Add the git icon, or a "not included" marker for excluded commits
+        this.iconPath = new vscode.ThemeIcon(excluded ? 'circle-slash' : 'git-commit');
         
-        // Make the item contextValue to enable context menu actions
-        this.contextValue = 'commit';
+        // Make the item contextValue to enable context menu actions (include/exclude toggles)
+        this.contextValue = excluded ? 'commit.excluded' : 'commit.included';
+    }
+}
+
+/**
+ * Tree item representing a file changed by a commit
+ */
+export class FileChangeTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly commit: CommitInfo,
+        public readonly change: FileChange,
+        parentId: string = `${commit.repositoryPath || ''}:${commit.hash}`
+    ) {
+        super(path.basename(change.path), vscode.TreeItemCollapsibleState.None);
+        
+        const status = change.status || 'M';
+        const directory = path.dirname(change.path);
+        const counts = change.binary ? 'binary' : `+${change.insertions} -${change.deletions}`;
+        
+        // Show the status letter and line counts next to the file name
+        this.description = `${status}  ${counts}${directory !== '.' ? `  ${directory}` : ''}`;
+        this.tooltip = change.oldPath
+            ? `${getFileStatusLabel(status)}: ${change.oldPath} → ${change.path}\n${counts}`
+            : `${getFileStatusLabel(status)}: ${change.path}\n${counts}`;
+        
+        this.id = `${parentId}:${change.path}`;
+        
+        // Use the file type icon from the current theme
+        this.resourceUri = vscode.Uri.file(commit.repositoryPath ? path.join(commit.repositoryPath, change.path) : change.path);
+        
+        // Open the diff between the parent and this commit when clicked
+        this.command = {
+            command: 'report-pilot.openFileDiff',
+            title: 'Open Changes',
+            arguments: [commit, change]
+        };
+        
+        this.contextValue = 'fileChange';
+    }
+}
+
+/**
+ * Human-readable label for a git file status letter
+ */
+function getFileStatusLabel(status: string): string {
+    switch (status) {
+        case 'A': return 'Added';
+        case 'M': return 'Modified';
+        case 'D': return 'Deleted';
+        case 'R': return 'Renamed';
+        case 'C': return 'Copied';
+        case 'T': return 'Type changed';
+        default: return status;
+    }
+}
+
+/**
+ * Branch, pull request, issue, author or top-level directory groups a commit belongs to.
+ * A commit that mentions several issues or touches several top-level directories belongs to each of them.
+ */
+function getGroupKeys(commit: CommitInfo, grouping: CommitGrouping): string[] {
+    switch (grouping) {
+        case 'branch':
+            return [commit.branch || '(no branch)'];
+        case 'pullRequest':
+            return [commit.pullRequest ? getPullRequestLabel(commit.pullRequest) : '(no pull request)'];
+        case 'issue':
+            return commit.issueKeys && commit.issueKeys.length > 0
+                ? commit.issueKeys.map(key => formatIssueLabel(key, (commit.issues || []).find(issue => issue.key === key)))
+                : ['(no issue)'];
+        case 'author':
+            return [commit.author || '(unknown author)'];
+        case 'directory': {
+            const files = commit.fileChanges || [];
+            if (files.length === 0) {
+                return ['(no file changes)'];
+            }
+            const directories = files.map(change => change.path.includes('/') ? change.path.split('/')[0] : '(root)');
+            return Array.from(new Set(directories));
+        }
+        default:
+            return [];
     }
 }
 
@@ -61,16 +210,26 @@ export class CommitTreeItem extends vscode.TreeItem {
 export class DateSeparatorTreeItem extends vscode.TreeItem {
     constructor(
         public readonly date: string,
-        public readonly commits: CommitInfo[]
+        public readonly commits: CommitInfo[],
+        public readonly selectedCount: number = commits.length,
+        public readonly depth: number = 0,
+        parentId?: string,
+        estimatedMinutes?: number
     ) {
         super(date, vscode.TreeItemCollapsibleState.Expanded);
         
-        // Set tooltip and description
+        // Set tooltip and description, with the estimated time spent on the selected commits
         this.tooltip = `${date} - ${commits.length} commits`;
-        this.description = `${commits.length} commits`;
+        this.description = selectedCount === commits.length
+            ? `${commits.length} commits`
+            : `${selectedCount} of ${commits.length} commits selected`;
+        if (estimatedMinutes) {
+            this.tooltip += `\nEstimated time: ${formatHours(estimatedMinutes)}`;
+            this.description += ` · ~${formatHours(estimatedMinutes)}`;
+        }
         
-        // Set the date as identifier
-        this.id = `date-${date}`;
+        // Set the date as identifier, scoped to the parent group when nested
+        this.id = parentId ? `date-${parentId}-${date}` : `date-${date}`;
         
         // Add calendar icon
         this.iconPath = new vscode.ThemeIcon('calendar');
@@ -80,6 +239,73 @@ export class DateSeparatorTreeItem extends vscode.TreeItem {
     }
 }
 
+/**
+ * Repository tree item to group commits by repository in multi-repository workspaces
+ */
+export class RepositoryTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly repository: string,
+        public readonly repositoryPath: string,
+        public readonly commits: CommitInfo[],
+        public readonly selectedCount: number = commits.length,
+        public readonly depth: number = 0,
+        parentId?: string
+    ) {
+        super(repository, vscode.TreeItemCollapsibleState.Expanded);
+        
+        this.tooltip = `${repositoryPath}\n${commits.length} commits`;
+        this.description = selectedCount === commits.length
+            ? `${commits.length} commits`
+            : `${selectedCount} of ${commits.length} commits selected`;
+        
+        this.id = parentId ? `repository-${parentId}-${repositoryPath}` : `repository-${repositoryPath}`;
+        this.iconPath = new vscode.ThemeIcon('repo');
+        this.contextValue = 'repository';
+    }
+}
+
+/**
+ * Tree item grouping commits by branch, pull request, issue, author, type or top-level directory
+ */
+export class CommitGroupTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly grouping: CommitGrouping,
+        public readonly key: string,
+        public readonly commits: CommitInfo[],
+        public readonly selectedCount: number = commits.length,
+        public readonly depth: number = 0,
+        parentId?: string
+    ) {
+        super(key, vscode.TreeItemCollapsibleState.Expanded);
+        
+        this.tooltip = `${GROUPINGS[grouping].label}: ${key}\n${commits.length} commits`;
+        this.description = selectedCount === commits.length
+            ? `${commits.length} commits`
+            : `${selectedCount} of ${commits.length} commits selected`;
+        
+        this.id = parentId ? `${grouping}-${parentId}-${key}` : `${grouping}-${key}`;
+        this.iconPath = new vscode.ThemeIcon(GROUPINGS[grouping].icon);
+        this.contextValue = 'group';
+    }
+}
+
+/**
+ * Any tree item that groups commits
+ */
+export type GroupTreeItem = RepositoryTreeItem | DateSeparatorTreeItem | CommitGroupTreeItem;
+
+// Workspace state key for the hashes of commits excluded from reports
+const EXCLUDED_COMMITS_KEY = 'reportPilot.excludedCommits';
+
+// Workspace state key for the levels the commit tree is grouped by
+const COMMIT_GROUPING_KEY = 'reportPilot.commitGrouping';
+
+// Upper bound on remembered exclusions so workspace state does not grow forever
+const MAX_EXCLUDED_COMMITS = 2000;
+
+// Commit subjects that are usually noise in a report
+const NOISE_COMMIT_PATTERN = /^(wip\b|fixup!|squash!|amend!|merge (branch|remote-tracking branch|pull request)\b)/i;
+
 /**
  * Provider for the Git Commit TreeView
  */
@@ -88,20 +314,67 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
     readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null> = this._onDidChangeTreeData.event;
     
     private commits: CommitInfo[] = [];
-    private timeSpan: 'today' | 'yesterday' | 'thisWeek' | 'lastWeek' | 'custom' = 'today';
+    private timeSpan: TimeSpan = 'today';
+    private lastDays: number; // Number of days shown by the "Last N Days" time span
+    private customRange?: DateRange; // Range picked for the "Custom Date Range" time span
     private errorMessage: string | null = null;
     private isLoading: boolean = false;
+    private excludedCommits: Set<string>;
+    private grouping: CommitGrouping[];
+    private filter?: CommitFilter;
     
-    constructor() {
+    constructor(private readonly workspaceState: vscode.Memento) {
+        // Restore the commits excluded from reports in this workspace
+        this.excludedCommits = new Set(workspaceState.get<string[]>(EXCLUDED_COMMITS_KEY, []));
+        
+        // Restore the grouping; repositories only form a level when there are several
+        this.grouping = workspaceState.get<CommitGrouping[]>(COMMIT_GROUPING_KEY, ['repository', 'date'])
+            .filter(level => level in GROUPINGS);
+        
         // Initialize with the default time span from settings
-        this.timeSpan = vscode.workspace.getConfiguration('reportPilot').get('defaultTimespan', 'today') as any;
+        this.timeSpan = vscode.workspace.getConfiguration('reportPilot').get<TimeSpan>('defaultTimespan', 'today');
+        this.lastDays = vscode.workspace.getConfiguration('reportPilot').get<number>('lastDays', 30);
+        this.updateOnlyMyCommitsContext();
         this.refreshCommits();
     }
     
+    /**
+     * Whether the view only shows commits by the current git user
+     */
+    public isOnlyMyCommits(): boolean {
+        return vscode.workspace.getConfiguration('reportPilot').get<boolean>('onlyMyCommits', false);
+    }
+    
+    /**
+     * Turn the "Only my commits" filter on or off
+     */
+    public async setOnlyMyCommits(onlyMine: boolean): Promise<void> {
+        // Store it for the workspace when one is open so other projects keep their own choice
+        const target = vscode.workspace.workspaceFolders
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration('reportPilot').update('onlyMyCommits', onlyMine, target);
+    }
+    
+    /**
+     * Handle a change to the author filter settings
+     */
+    public async onAuthorSettingsChanged(): Promise<void> {
+        this.updateOnlyMyCommitsContext();
+        await this.refreshCommits();
+    }
+    
+    /**
+     * Expose the filter state to `when` clauses so the toolbar shows the right toggle
+     */
+    private updateOnlyMyCommitsContext(): void {
+        vscode.commands.executeCommand('setContext', 'reportPilot.onlyMyCommits', this.isOnlyMyCommits());
+    }
+    
     /**
      * Refresh commits with the current time span
      */
-    public async refreshCommits(newTimeSpan?: 'today' | 'yesterday' | 'thisWeek' | 'lastWeek' | 'custom'): Promise<void> {
+    public async refreshCommits(newTimeSpan?: TimeSpan): Promise<void> {
         if (newTimeSpan) {
             this.timeSpan = newTimeSpan;
         }
@@ -120,7 +393,7 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
             return;
         }
         
-        if (!isGitRepository(workspacePath)) {
+        if (getRepositoryPaths().length === 0) {
             this.errorMessage = "No Git repository found in the current workspace.";
             this.isLoading = false;
             this._onDidChangeTreeData.fire(undefined);
@@ -132,15 +405,20 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
         
         try {
             // Get date range based on the time span
-            const dateRange = getDateRange(this.timeSpan);
+            const dateRange = this.timeSpan === 'custom' && this.customRange
+                ? this.customRange
+                : getDateRange(this.timeSpan, { ...getDateRangeSettings(), days: this.lastDays });
             console.log(`[Report Pilot] Refreshing commits for timespan: ${this.timeSpan}`);
             
-            // Get commits for the date range
-            let commits = await getCommitsByDateRange(dateRange);
+            // Get commits for the date range, limited to the current user if requested
+            let commits = await getCommitsByDateRange(dateRange, await getMyAuthorFilter());
             
             // Add branch information to the commits
             commits = await addBranchInfoToCommits(commits);
             
+            // Add the titles and statuses of the issues the commits mention
+            commits = await addIssueMetadataToCommits(commits);
+            
             console.log(`[Report Pilot] Provider received ${commits.length} commits`);
             
             this.commits = commits;
@@ -203,16 +481,18 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
             return [noCommitsItem];
         }
         
-        // If no element is provided, group commits by date
+        // If no element is provided, group commits by repository or date
         if (!element) {
-            const commitsByDate = new Map<string, CommitInfo[]>();
-            const dateFormat = vscode.workspace.getConfiguration('reportPilot').get('dateFormat', 'YYYY-MM-DD');
-            
             // Add the current time period as the first item
             const items: vscode.TreeItem[] = [];
-            const timePeriodItem = new vscode.TreeItem(`Time Period: ${this.getTimeSpanLabel()}`);
+            const timePeriodItem = new vscode.TreeItem(
+                `Time Period: ${this.getTimeSpanLabel()}${this.isOnlyMyCommits() ? ' (my commits)' : ''}`
+            );
             timePeriodItem.iconPath = new vscode.ThemeIcon('clock');
-            timePeriodItem.description = `${this.commits.length} commits found`;
+            const selectedCount = this.getSelectedCommits().length;
+            timePeriodItem.description = selectedCount === this.commits.length
+                ? `${this.commits.length} commits found`
+                : `${this.commits.length} commits found, ${selectedCount} selected`;
             timePeriodItem.tooltip = 'Click to change time period';
             timePeriodItem.command = {
                 command: 'report-pilot.showCommits',
@@ -221,56 +501,175 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
             };
             items.push(timePeriodItem);
             
-            // Group commits by date
-            for (const commit of this.commits) {
-                const dateKey = dayjs(commit.date).format(dateFormat);
-                if (!commitsByDate.has(dateKey)) {
-                    commitsByDate.set(dateKey, []);
+            // Show the active filter; clicking it edits the filter
+            const commits = this.getFilteredCommits();
+            if (this.filter) {
+                const filterItem = new vscode.TreeItem(`Filter: ${this.filter.query}`);
+                filterItem.iconPath = new vscode.ThemeIcon('filter');
+                filterItem.description = `${commits.length} of ${this.commits.length} commits match`;
+                filterItem.tooltip = 'Click to change the filter';
+                filterItem.contextValue = 'commitFilter';
+                filterItem.command = {
+                    command: 'report-pilot.filterCommits',
+                    title: 'Filter Commits'
+                };
+                items.push(filterItem);
+                
+                if (commits.length === 0) {
+                    const noMatchItem = new vscode.TreeItem('No commits match the filter');
+                    noMatchItem.iconPath = new vscode.ThemeIcon('info');
+                    items.push(noMatchItem);
+                    return items;
                 }
-                commitsByDate.get(dateKey)?.push(commit);
-            }
-            
-            // Create date separator items, sorted by date in descending order (newest first)
-            const sortedDates = Array.from(commitsByDate.keys()).sort((a, b) => {
-                // Convert string dates to Date objects for comparison
-                const dateA = dayjs(a).toDate();
-                const dateB = dayjs(b).toDate();
-                return dateB.getTime() - dateA.getTime(); // Descending order
-            });
-            
-            for (const date of sortedDates) {
-                const commits = commitsByDate.get(date) || [];
-                items.push(new DateSeparatorTreeItem(date, commits));
             }
             
-            return items;
+            return items.concat(this.getGroupItems(commits, 0));
         }
         
-        // If a date separator is provided, return commits for that date
-        if (element instanceof DateSeparatorTreeItem) {
+        // If a group is provided, return its sub-groups, or its commits at the last level
+        if (element instanceof RepositoryTreeItem || element instanceof DateSeparatorTreeItem || element instanceof CommitGroupTreeItem) {
+            if (element.depth + 1 < this.getGroupingLevels().length) {
+                return this.getGroupItems(element.commits, element.depth + 1, element.id);
+            }
+            
             // Sort commits by date in descending order (newest first)
             const sortedCommits = [...element.commits].sort((a, b) => 
                 b.date.getTime() - a.date.getTime()
             );
             
+            // Commits that touched files can be expanded to list them
             return sortedCommits.map(commit => 
-                new CommitTreeItem(commit, vscode.TreeItemCollapsibleState.None)
+                new CommitTreeItem(
+                    commit,
+                    commit.fileChanges && commit.fileChanges.length > 0
+                        ? vscode.TreeItemCollapsibleState.Collapsed
+                        : vscode.TreeItemCollapsibleState.None,
+                    this.excludedCommits.has(commit.hash),
+                    element.id
+                )
             );
         }
         
+        // If a commit is provided, return the files it changed
+        if (element instanceof CommitTreeItem) {
+            const changes = await getCommitFileChanges(element.commit.hash, element.commit.repositoryPath);
+            return changes.map(change => new FileChangeTreeItem(element.commit, change, element.id));
+        }
+        
         return [];
     }
     
+    /**
+     * The grouping levels in effect for the current commits
+     */
+    private getGroupingLevels(): CommitGrouping[] {
+        // A repository level only helps when the commits come from several repositories
+        const levels = groupCommitsByRepository(this.commits).size > 1
+            ? this.grouping
+            : this.grouping.filter(level => level !== 'repository');
+        return levels.length > 0 ? levels : ['date'];
+    }
+    
+    /**
+     * Group commits into tree items for one grouping level
+     */
+    private getGroupItems(commits: CommitInfo[], depth: number, parentId?: string): GroupTreeItem[] {
+        const grouping = this.getGroupingLevels()[depth];
+        const countSelected = (groupCommits: CommitInfo[]) => groupCommits.filter(commit => !this.excludedCommits.has(commit.hash)).length;
+        
+        switch (grouping) {
+            case 'date':
+                return this.getDateItems(commits, depth, parentId);
+            
+            case 'repository':
+                return Array.from(groupCommitsByRepository(commits).entries())
+                    .sort((a, b) => (a[1][0].repository || '').localeCompare(b[1][0].repository || ''))
+                    .map(([repositoryPath, groupCommits]) => new RepositoryTreeItem(
+                        groupCommits[0].repository || repositoryPath, repositoryPath, groupCommits, countSelected(groupCommits), depth, parentId
+                    ));
+            
+            case 'type':
+                // Keep the order of the categories rather than sorting them by name
+                return Object.entries(categorizeCommitsByType(commits))
+                    .filter(([, groupCommits]) => groupCommits.length > 0)
+                    .map(([type, groupCommits]) => new CommitGroupTreeItem(
+                        'type', COMMIT_TYPE_LABELS[type] || type, groupCommits, countSelected(groupCommits), depth, parentId
+                    ));
+            
+            default: {
+                const groups = new Map<string, CommitInfo[]>();
+                for (const commit of commits) {
+                    for (const key of getGroupKeys(commit, grouping)) {
+                        if (!groups.has(key)) {
+                            groups.set(key, []);
+                        }
+                        groups.get(key)?.push(commit);
+                    }
+                }
+                
+                // Placeholder groups such as "(no branch)" go last; numbers sort naturally, so PR #9 comes before PR #10
+                return Array.from(groups.entries())
+                    .sort(([a], [b]) => Number(a.startsWith('(')) - Number(b.startsWith('(')) || a.localeCompare(b, undefined, { numeric: true }))
+                    .map(([key, groupCommits]) => new CommitGroupTreeItem(
+                        grouping, key, groupCommits, countSelected(groupCommits), depth, parentId
+                    ));
+            }
+        }
+    }
+    
+    /**
+     * Group commits into date separator items, newest date first
+     */
+    private getDateItems(commits: CommitInfo[], depth: number, parentId?: string): DateSeparatorTreeItem[] {
+        const commitsByDate = new Map<string, CommitInfo[]>();
+        const dateFormat = vscode.workspace.getConfiguration('reportPilot').get('dateFormat', 'YYYY-MM-DD');
+        
+        // Group commits by date
+        for (const commit of commits) {
+            const dateKey = dayjs(commit.date).format(dateFormat);
+            if (!commitsByDate.has(dateKey)) {
+                commitsByDate.set(dateKey, []);
+            }
+            commitsByDate.get(dateKey)?.push(commit);
+        }
+        
+        // Create date separator items, sorted by date in descending order (newest first)
+        const sortedDates = Array.from(commitsByDate.keys()).sort((a, b) => {
+            // Convert string dates to Date objects for comparison
+            const dateA = dayjs(a).toDate();
+            const dateB = dayjs(b).toDate();
+            return dateB.getTime() - dateA.getTime(); // Descending order
+        });
+        
+        // Estimate across all days, so a work session that runs past midnight carries on into the next day
+        const estimate = estimateWorkTime(commits.filter(commit => !this.excludedCommits.has(commit.hash)), getTimeEstimateSettings(), dateFormat);
+        
+        return sortedDates.map(date => {
+            const dateCommits = commitsByDate.get(date) || [];
+            const selected = dateCommits.filter(commit => !this.excludedCommits.has(commit.hash)).length;
+            return new DateSeparatorTreeItem(date, dateCommits, selected, depth, parentId, estimate.byDay.get(date));
+        });
+    }
+    
     /**
      * Get a human-readable label for the current time span
      */
-    private getTimeSpanLabel(): string {
+    public getTimeSpanLabel(): string {
         switch(this.timeSpan) {
             case 'today': return 'Today';
             case 'yesterday': return 'Yesterday';
             case 'thisWeek': return 'This Week';
             case 'lastWeek': return 'Last Week';
-            case 'custom': return 'Custom Range';
+            case 'thisMonth': return 'This Month';
+            case 'lastMonth': return 'Last Month';
+            case 'thisQuarter': return 'This Quarter';
+            case 'lastQuarter': return 'Last Quarter';
+            case 'lastNDays': return `Last ${this.lastDays} Days`;
+            case 'thisSprint': return 'This Sprint';
+            case 'lastSprint': return 'Last Sprint';
+            case 'custom': return this.customRange
+                ? `${dayjs(this.customRange.from).format('YYYY-MM-DD')} to ${dayjs(this.customRange.to).format('YYYY-MM-DD')}`
+                : 'Custom Range';
             default: return this.timeSpan;
         }
     }
@@ -284,8 +683,15 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
             { label: 'Yesterday', description: 'Show commits from yesterday', value: 'yesterday' },
             { label: 'This Week', description: 'Show commits from this week', value: 'thisWeek' },
             { label: 'Last Week', description: 'Show commits from last week', value: 'lastWeek' },
+            { label: 'This Month', description: 'Show commits from this month', value: 'thisMonth' },
+            { label: 'Last Month', description: 'Show commits from last month', value: 'lastMonth' },
+            { label: 'This Quarter', description: 'Show commits from this quarter', value: 'thisQuarter' },
+            { label: 'Last Quarter', description: 'Show commits from last quarter', value: 'lastQuarter' },
+            { label: 'Last N Days', description: 'Show commits from a number of days up to today', value: 'lastNDays' },
+            { label: 'This Sprint', description: 'Show commits from the current sprint', value: 'thisSprint' },
+            { label: 'Last Sprint', description: 'Show commits from the previous sprint', value: 'lastSprint' },
             { label: 'All Recent Commits', description: 'Show the most recent commits regardless of date', value: 'all' },
-            { label: 'Custom Date Range', description: 'Specify a custom date range', value: 'custom' }
+            { label: 'Custom Date Range', description: 'Pick a range on a calendar or type one, e.g. "last 10 days"', value: 'custom' }
         ];
         
         const selection = await vscode.window.showQuickPick(options, {
@@ -298,50 +704,38 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
                 vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
                     title: "Report Pilot: Loading recent commits",
-                    cancellable: false
-                }, async (progress) => {
+                    cancellable: true
+                }, async (progress, token) => {
                     this.isLoading = true;
                     this._onDidChangeTreeData.fire(undefined);
                     
                     try {
-                        const git = await import('simple-git');
-                        const workspacePath = getWorkspacePath();
-                        if (workspacePath) {
-                            const simpleGitInstance = git.default(workspacePath);
-                            
-                            // Use standard git log options - this works reliably
-                            const result = await simpleGitInstance.log([
-                                '-n', '50',
-                                '--date=iso'
-                            ]);
-                            
-                            console.log(`[Report Pilot] All Recent Commits found ${result?.all?.length || 0} commits`);
+                        const commits = await getAllRecentCommits(50, token, await getMyAuthorFilter());
+                        
+                        // Enrich the commits like any other time span so every Group By option works
+                        this.commits = await addIssueMetadataToCommits(await addBranchInfoToCommits(commits, token));
+                        console.log(`[Report Pilot] All Recent Commits found ${this.commits.length} commits`);
+                        
+                        if (this.commits.length > 0) {
+                            this.timeSpan = 'custom';
+                            this.customRange = undefined;
+                            this.errorMessage = null;
                             
-                            if (result && result.all && result.all.length > 0) {
-                                // Map the result directly to our CommitInfo format
-                                this.commits = result.all.map(commit => ({
-                                    hash: commit.hash,
-                                    message: commit.message || '[No message]',
-                                    author: commit.author_name || 'Unknown',
-                                    date: new Date(commit.date),
-                                    files: []
-                                }));
-                                
-                                this.timeSpan = 'custom';
-                                this.errorMessage = null;
-                                console.log(`[Report Pilot] Processed ${this.commits.length} commits for All Recent`);
-                                
-                                // Debug the first few commits to check message content
-                                this.commits.slice(0, 3).forEach((commit, i) => {
-                                    console.log(`[Report Pilot] Commit ${i}: hash=${commit.hash}, message="${commit.message}"`);
-                                });
-                            } else {
-                                this.errorMessage = "No commits found in the repository";
-                            }
+                            // Debug the first few commits to check message content
+                            this.commits.slice(0, 3).forEach((commit, i) => {
+                                console.log(`[Report Pilot] Commit ${i}: hash=${commit.hash}, message="${commit.message}"`);
+                            });
+                        } else {
+                            this.errorMessage = "No commits found in the repository";
                         }
                     } catch (error) {
-                        this.errorMessage = `Failed to fetch commits: ${error}`;
-                        vscode.window.showErrorMessage(this.errorMessage);
+                        if (token.isCancellationRequested) {
+                            // Keep showing the previous commits when loading was cancelled
+                            console.log('[Report Pilot] Loading recent commits was cancelled');
+                        } else {
+                            this.errorMessage = `Failed to fetch commits: ${error}`;
+                            vscode.window.showErrorMessage(this.errorMessage);
+                        }
                     } finally {
                         this.isLoading = false;
                         this._onDidChangeTreeData.fire(undefined);
@@ -350,67 +744,88 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
                 
                 return;
             } else if (selection.value === 'custom') {
-                // Handle custom date range
-                const fromDate = await vscode.window.showInputBox({
-                    prompt: 'Enter start date (YYYY-MM-DD)',
-                    placeHolder: 'e.g. 2023-01-01',
-                    validateInput: (input) => {
-                        if (!/^\d{4}-\d{2}-\d{2}$/.test(input)) {
-                            return 'Please enter a date in YYYY-MM-DD format';
-                        }
-                        return null;
-                    }
-                });
-                
-                if (!fromDate) {
+                // Pick the range on a calendar that highlights days with commits
+                const range = await pickDateRange(await getMyAuthorFilter(), this.customRange);
+                if (!range) {
                     return;
                 }
                 
-                const toDate = await vscode.window.showInputBox({
-                    prompt: 'Enter end date (YYYY-MM-DD)',
-                    placeHolder: 'e.g. 2023-01-31',
+                this.timeSpan = 'custom';
+                this.customRange = range;
+                await this.refreshCommits();
+            } else if (selection.value === 'lastNDays') {
+                const days = await vscode.window.showInputBox({
+                    prompt: 'Enter the number of days, including today',
+                    value: String(this.lastDays),
                     validateInput: (input) => {
-                        if (!/^\d{4}-\d{2}-\d{2}$/.test(input)) {
-                            return 'Please enter a date in YYYY-MM-DD format';
+                        if (!/^\d+$/.test(input) || Number(input) < 1) {
+                            return 'Please enter a whole number of days';
                         }
                         return null;
                     }
                 });
                 
-                if (!toDate) {
+                if (!days) {
                     return;
                 }
                 
-                // Parse dates
-                const from = new Date(fromDate);
-                from.setHours(0, 0, 0, 0);
-                
-                const to = new Date(toDate);
-                to.setHours(23, 59, 59, 999);
-                
-                // Show loading indicator
-                this.isLoading = true;
-                this._onDidChangeTreeData.fire(undefined);
-                
-                try {
-                    this.commits = await getCommitsByDateRange({ from, to });
-                    this.timeSpan = 'custom';
-                    if (this.commits.length === 0) {
-                        this.errorMessage = `No commits found between ${fromDate} and ${toDate}`;
-                    } else {
-                        this.errorMessage = null;
-                    }
-                } catch (error) {
-                    this.errorMessage = `Failed to fetch commits: ${error}`;
-                    vscode.window.showErrorMessage(this.errorMessage);
-                } finally {
-                    this.isLoading = false;
-                    this._onDidChangeTreeData.fire(undefined);
+                this.lastDays = Number(days);
+                await this.refreshCommits('lastNDays');
+            } else if ((selection.value === 'thisSprint' || selection.value === 'lastSprint') && !getDateRangeSettings().sprintStartDate) {
+                // Sprints can only be computed once the cadence is known
+                const action = await vscode.window.showWarningMessage(
+                    'Set the start date of a sprint to use sprint time spans.',
+                    'Open Settings'
+                );
+                if (action === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'reportPilot.sprint');
                 }
             } else {
-                await this.refreshCommits(selection.value as any);
+                await this.refreshCommits(selection.value as TimeSpan);
+            }
+        }
+    }
+    
+    /**
+     * Let the user pick how the commit tree is grouped, one level at a time
+     */
+    public async changeGrouping(): Promise<void> {
+        const levels: CommitGrouping[] = [];
+        
+        while (levels.length < 3) {
+            const options: (vscode.QuickPickItem & { grouping?: CommitGrouping })[] = (Object.keys(GROUPINGS) as CommitGrouping[])
+                .filter(grouping => !levels.includes(grouping))
+                .map(grouping => ({ label: `$(${GROUPINGS[grouping].icon}) ${GROUPINGS[grouping].label}`, grouping }));
+            if (levels.length > 0) {
+                options.unshift({ label: '$(check) Done', description: levels.map(level => GROUPINGS[level].label).join(' → ') });
             }
+            
+            const selection = await vscode.window.showQuickPick(options, {
+                placeHolder: levels.length === 0
+                    ? `Group commits by... (currently ${this.grouping.map(level => GROUPINGS[level].label).join(' → ')})`
+                    : `Then group each ${GROUPINGS[levels[levels.length - 1]].label.toLowerCase()} by...`
+            });
+            
+            if (!selection) {
+                // Cancelling keeps the current grouping
+                return;
+            }
+            if (!selection.grouping) {
+                break;
+            }
+            levels.push(selection.grouping);
         }
+        
+        await this.setGrouping(levels);
+    }
+    
+    /**
+     * Group the commit tree by the given levels and remember the choice for this workspace
+     */
+    public async setGrouping(levels: CommitGrouping[]): Promise<void> {
+        this.grouping = levels.length > 0 ? levels : ['date'];
+        await this.workspaceState.update(COMMIT_GROUPING_KEY, this.grouping);
+        this._onDidChangeTreeData.fire(undefined);
     }
     
     /**
@@ -419,4 +834,98 @@ export class GitCommitProvider implements vscode.TreeDataProvider<vscode.TreeIte
     public getCommits(): CommitInfo[] {
         return this.commits;
     }
+    
+    /**
+     * Get the commits that match the active filter
+     */
+    public getFilteredCommits(): CommitInfo[] {
+        const filter = this.filter;
+        return filter ? this.commits.filter(commit => matchesCommitFilter(commit, filter)) : this.commits;
+    }
+    
+    /**
+     * Get the commits that are included in reports: those matching the filter and not excluded
+     */
+    public getSelectedCommits(): CommitInfo[] {
+        return this.getFilteredCommits().filter(commit => this.isCommitIncluded(commit));
+    }
+    
+    /**
+     * Get the active filter, if any
+     */
+    public getFilter(): CommitFilter | undefined {
+        return this.filter;
+    }
+    
+    /**
+     * Narrow the commit list, or show all commits again with undefined
+     */
+    public setFilter(filter: CommitFilter | undefined): void {
+        this.filter = filter;
+        vscode.commands.executeCommand('setContext', 'reportPilot.commitFilterActive', !!filter);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+    
+    /**
+     * Ask for a filter and apply it to the commit list
+     */
+    public async changeFilter(): Promise<void> {
+        const query = await vscode.window.showInputBox({
+            prompt: 'Filter commits by text, /regex/, author:, branch:, path: (glob) or type: (feat, fix, docs, refactor, test, chore). Leave empty to show all commits.',
+            placeHolder: 'e.g. login author:alice path:src/** type:fix',
+            value: this.filter?.query || '',
+            validateInput: (input) => {
+                try {
+                    parseCommitFilter(input);
+                    return null;
+                } catch (error) {
+                    return error instanceof Error ? error.message : String(error);
+                }
+            }
+        });
+        
+        if (query === undefined) {
+            return;
+        }
+        this.setFilter(parseCommitFilter(query));
+    }
+    
+    /**
+     * Check whether a commit is included in reports
+     */
+    public isCommitIncluded(commit: CommitInfo): boolean {
+        return !this.excludedCommits.has(commit.hash);
+    }
+    
+    /**
+     * Include or exclude commits from reports and remember the choice for this workspace
+     */
+    public async setCommitsIncluded(commits: CommitInfo[], included: boolean): Promise<void> {
+        for (const commit of commits) {
+            if (included) {
+                this.excludedCommits.delete(commit.hash);
+            } else {
+                this.excludedCommits.add(commit.hash);
+            }
+        }
+        
+        // Sets keep insertion order, so the oldest exclusions are dropped first
+        const excluded = Array.from(this.excludedCommits).slice(-MAX_EXCLUDED_COMMITS);
+        this.excludedCommits = new Set(excluded);
+        await this.workspaceState.update(EXCLUDED_COMMITS_KEY, excluded);
+        
+        this._onDidChangeTreeData.fire(undefined);
+    }
+    
+    /**
+     * Exclude work-in-progress, fixup and merge commits from reports
+     * @returns the number of commits that were excluded
+     */
+    public async excludeNoiseCommits(): Promise<number> {
+        const noise = this.getSelectedCommits().filter(commit => NOISE_COMMIT_PATTERN.test(commit.message));
+        if (noise.length > 0) {
+            await this.setCommitsIncluded(noise, false);
+        }
+        return noise.length;
+    }
 }
\ No newline at end of file
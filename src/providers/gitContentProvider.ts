@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import { getFileAtRevision } from '../utils/gitUtils';
+
+/**
+ * Serves file contents at a given git revision so they can be shown in VS Code's diff editor
+ */
+export class GitContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'report-pilot-git';
+    
+    /**
+     * Build a URI for a file at a revision. An empty ref yields an empty document.
+     */
+    public static toUri(filePath: string, ref: string, repositoryPath?: string): vscode.Uri {
+        return vscode.Uri.file(`/${filePath}`).with({
+            scheme: GitContentProvider.scheme,
+            query: JSON.stringify({ path: filePath, ref, repositoryPath })
+        });
+    }
+    
+    /**
+     * Provide the file contents for a URI created by `toUri`
+     */
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        try {
+            const { path, ref, repositoryPath } = JSON.parse(uri.query) as { path: string; ref: string; repositoryPath?: string };
+            return await getFileAtRevision(ref, path, repositoryPath);
+        } catch (error) {
+            console.error(`[Report Pilot] Failed to load ${uri.toString()}:`, error);
+            return '';
+        }
+    }
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import dayjs from 'dayjs';
 import { CommitInfo, generateAIWorkReport } from '../utils/gitUtils';
-import { generateOpenAIReport } from '../utils/aiUtils';
+import { getContentSecurityPolicy, getNonce, markdownToHtml } from '../utils/markdownUtils';
+import { getIssueTrackers } from '../utils/issueUtils';
 
 /**
  * Provider for the Live Report View
@@ -301,7 +302,7 @@ export class LiveReportViewProvider implements vscode.WebviewViewProvider {
         try {
             this._view.webview.postMessage({
                 command: 'updateReport',
-                content: content
+                html: markdownToHtml(content, getIssueTrackers())
             });
         } catch (error) {
             console.error('[Report Pilot] Error updating report in webview:', error);
@@ -366,13 +367,15 @@ export class LiveReportViewProvider implements vscode.WebviewViewProvider {
      * Get the HTML content for the webview
      */
     private _getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
         return `<!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>Report Pilot</title>
-            <style>
+            <style nonce="${nonce}">
                 body {
                     font-family: var(--vscode-editor-font-family);
                     font-size: var(--vscode-editor-font-size);
@@ -583,7 +586,7 @@ export class LiveReportViewProvider implements vscode.WebviewViewProvider {
                 </div>
             </div>
 
-            <script>
+            <script nonce="${nonce}">
                 (function() {
                     const vscode = acquireVsCodeApi();
                     const welcomeView = document.getElementById('welcome-view');
@@ -661,9 +664,9 @@ export class LiveReportViewProvider implements vscode.WebviewViewProvider {
                                 break;
                                 
                             case 'updateReport':
-                                // Update report content with markdown
+                                // Report HTML is rendered and sanitized by the extension
                                 debugLog("Updating report content");
-                                reportContent.innerHTML = markdownToHtml(message.content);
+                                reportContent.innerHTML = message.html;
                                 break;
                                 
                             case 'finishGenerating':
@@ -691,7 +694,10 @@ export class LiveReportViewProvider implements vscode.WebviewViewProvider {
                                 loading.classList.add('hidden');
                                 reportContainer.classList.remove('hidden');
                                 reportContent.innerHTML = '<div class="message error">Error generating report. Please try again.</div>';
-                                reportContent.innerHTML += '<div class="error-details">' + message.message + '</div>';
+                                const errorDetails = document.createElement('div');
+                                errorDetails.className = 'error-details';
+                                errorDetails.textContent = message.message;
+                                reportContent.appendChild(errorDetails);
                                 
                                 // Reset the refresh icon if it was spinning
                                 const errorRefreshIcon = refreshReportBtn.querySelector('.refresh-icon');
@@ -699,58 +705,6 @@ export class LiveReportViewProvider implements vscode.WebviewViewProvider {
                                 break;
                         }
                     });
-                    
-                    // Basic markdown to HTML converter
-                    function markdownToHtml(markdown) {
-                        let html = '';
-                        const lines = markdown.split('\\n');
-                        let inList = false;
-                        
-                        for (const line of lines) {
-                            // Handle headings
-                            if (line.startsWith('# ')) {
-                                html += '<h1>' + line.substring(2) + '</h1>\\n';
-                            }
-                            else if (line.startsWith('## ')) {
-                                html += '<h2>' + line.substring(3) + '</h2>\\n';
-                            }
-                            else if (line.startsWith('### ')) {
-                                html += '<h3>' + line.substring(4) + '</h3>\\n';
-                            }
-                            // Handle list items
-                            else if (line.startsWith('- ')) {
-                                if (!inList) {
-                                    html += '<ul>\\n';
-                                    inList = true;
-                                }
-                                html += '<li>' + line.substring(2) + '</li>\\n';
-                            }
-                            else if (line.trim() === '' && inList) {
-                                html += '</ul>\\n';
-                                inList = false;
-                                html += '<p></p>\\n';
-                            }
-                            // Handle bold text
-                            else if (line.includes('**')) {
-                                let processedLine = line.replace(/\\*\\*(.*?)\\*\\*/g, '<strong>$1</strong>');
-                                html += '<p>' + processedLine + '</p>\\n';
-                            }
-                            // Regular paragraphs
-                            else if (line.trim() !== '') {
-                                html += '<p>' + line + '</p>\\n';
-                            }
-                            else {
-                                html += '<p></p>\\n';
-                            }
-                        }
-                        
-                        // Close any open lists
-                        if (inList) {
-                            html += '</ul>\\n';
-                        }
-                        
-                        return html;
-                    }
                 })();
             </script>
         </body>
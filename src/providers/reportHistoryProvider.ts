@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import dayjs from 'dayjs';
+import { ReportHistory, ReportHistoryEntry } from '../utils/reportHistory';
+
+/**
+ * Tree item representing a saved report
+ */
+export class ReportHistoryTreeItem extends vscode.TreeItem {
+    constructor(public readonly entry: ReportHistoryEntry) {
+        super(entry.name || entry.title, vscode.TreeItemCollapsibleState.None);
+
+        const createdAt = dayjs(entry.createdAt).format('YYYY-MM-DD HH:mm');
+        this.description = entry.period ? `${createdAt} · ${entry.period}` : createdAt;
+
+        // Show where the report came from on hover
+        const details = [
+            entry.name ? `${entry.name} (${entry.title})` : entry.title,
+            `Generated: ${createdAt}`
+        ];
+        if (entry.period) {
+            details.push(`Time period: ${entry.period}`);
+        }
+        if (entry.generator) {
+            details.push(`Generator: ${entry.generator}`);
+        }
+        if (entry.template) {
+            details.push(`Template: ${entry.template}`);
+        }
+        details.push(`${entry.commitHashes.length} commits`);
+        this.tooltip = details.join('\n');
+
+        this.id = entry.id;
+        this.iconPath = new vscode.ThemeIcon('history');
+        this.contextValue = 'historyReport';
+
+        // Reopen the report in the Work Report view when clicked
+        this.command = {
+            command: 'report-pilot.openHistoryReport',
+            title: 'Open Report',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * Provider for the Report History TreeView
+ */
+export class ReportHistoryProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null> = new vscode.EventEmitter<vscode.TreeItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null> = this._onDidChangeTreeData.event;
+
+    constructor(private readonly history: ReportHistory) {
+        history.onDidChange(() => this._onDidChangeTreeData.fire(undefined));
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element) {
+            return [];
+        }
+
+        const entries = await this.history.getEntries();
+        if (entries.length === 0) {
+            const emptyItem = new vscode.TreeItem('Generated reports will appear here');
+            emptyItem.iconPath = new vscode.ThemeIcon('info');
+            return [emptyItem];
+        }
+
+        return entries.map(entry => new ReportHistoryTreeItem(entry));
+    }
+}
+
+/**
+ * Serves saved reports as read-only Markdown documents, used to compare them in the diff editor
+ */
+export class ReportHistoryContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'report-pilot-history';
+
+    constructor(private readonly history: ReportHistory) {}
+
+    /**
+     * Build a URI for a saved report. The .md extension gives the document Markdown highlighting.
+     */
+    public static toUri(entry: ReportHistoryEntry): vscode.Uri {
+        const fileName = `${(entry.name || entry.title).replace(/[\\/:*?"<>|]+/g, '-')} ${dayjs(entry.createdAt).format('YYYY-MM-DD HH-mm')}.md`;
+        return vscode.Uri.file(`/${fileName}`).with({
+            scheme: ReportHistoryContentProvider.scheme,
+            query: entry.id
+        });
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const entry = await this.history.getEntry(uri.query);
+        return entry ? entry.content : '';
+    }
+}
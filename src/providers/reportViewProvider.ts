@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
 import dayjs from 'dayjs';
-import { CommitInfo, generateAIWorkReport } from '../utils/gitUtils';
-import { generateOpenAIReport } from '../utils/aiUtils';
+import { CommitInfo, StandupData, generateAIWorkReport, generateStandupReport } from '../utils/gitUtils';
+import { generateProviderReport, generateProviderStandupReport } from '../utils/aiUtils';
+import { GenerateReportOptions, MissingApiKeyError, ReportGenerator, getConfiguredReportGenerators } from '../utils/aiProviders';
+import { ReportTemplate, renderReportTemplate } from '../utils/templateUtils';
+import { escapeHtml, getContentSecurityPolicy, getNonce, markdownToHtml } from '../utils/markdownUtils';
+import { getIssueTrackers } from '../utils/issueUtils';
+import { ExportableReport } from '../utils/exportUtils';
+
+// Time without further edits after which an edited report is announced
+const EDIT_NOTIFICATION_DELAY = 1000;
 
 /**
  * WebView provider for rendering Work Reports directly in HTML
@@ -10,8 +18,34 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private _report: string = '';
     private _isGenerating: boolean = false;
+    private _isStreaming: boolean = false;
+    private _cancellation?: vscode.CancellationTokenSource;
+    private _reportInfo?: Omit<ExportableReport, 'markdown'>;
+    private _editorDocument?: vscode.TextDocument; // Editor document kept in sync with the report
+    private _disposables: vscode.Disposable[] = [];
+    
+    private _onDidGenerateReport = new vscode.EventEmitter<ExportableReport>();
+    readonly onDidGenerateReport: vscode.Event<ExportableReport> = this._onDidGenerateReport.event;
+    
+    private _onDidEditReport = new vscode.EventEmitter<ExportableReport>();
+    readonly onDidEditReport: vscode.Event<ExportableReport> = this._onDidEditReport.event;
+    private _editTimer?: NodeJS.Timeout;
     
-    constructor(private readonly _extensionUri: vscode.Uri) {}
+    constructor(private readonly _extensionUri: vscode.Uri) {
+        // Edits made in the linked editor document become the report
+        this._disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document === this._editorDocument) {
+                    this._setReportText(event.document.getText(), 'editor');
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document === this._editorDocument) {
+                    this._editorDocument = undefined;
+                }
+            })
+        );
+    }
     
     /**
      * Called when the view becomes visible
@@ -46,17 +80,24 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
                     break;
                 
                 case 'openInEditor':
-                    // Create a temporary document and show it
-                    const doc = await vscode.workspace.openTextDocument({
-                        content: this._report,
-                        language: 'markdown'
-                    });
-                    await vscode.window.showTextDocument(doc, { preview: true });
+                    await this.openInEditor();
+                    break;
+                
+                case 'editReport':
+                    await this._setReportText(message.text, 'webview');
+                    break;
+                
+                case 'exportReport':
+                    vscode.commands.executeCommand('report-pilot.exportReport');
                     break;
                 
                 case 'newReport':
                     this.clearReport();
                     break;
+                
+                case 'stopGeneration':
+                    this.stopGeneration();
+                    break;
             }
         });
     }
@@ -78,25 +119,27 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
      * Generate the HTML for the webview
      */
     private _getHtmlForWebview(webview: vscode.Webview): string {
-        // If we have a report, show it, otherwise show the generate button
-        if (this._report) {
-            return this._getReportHtml();
+        // If we have a report (or one is streaming in), show it, otherwise show the generate button
+        if (this._report || this._isStreaming) {
+            return this._getReportHtml(webview);
         } else {
-            return this._getGenerateButtonHtml();
+            return this._getGenerateButtonHtml(webview);
         }
     }
     
     /**
      * Generate HTML for the generate button
      */
-    private _getGenerateButtonHtml(): string {
+    private _getGenerateButtonHtml(webview: vscode.Webview): string {
+        const nonce = getNonce();
         return `<!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>Work Report</title>
-            <style>
+            <style nonce="${nonce}">
                 body {
                     font-family: var(--vscode-font-family);
                     padding: 20px;
@@ -140,7 +183,7 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
                 Generate Report
             </button>
             
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
                 document.getElementById('generateBtn').addEventListener('click', () => {
                     vscode.postMessage({
@@ -155,14 +198,16 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     /**
      * Generate HTML for showing "generating" state
      */
-    private _getGeneratingHtml(): string {
+    private _getGeneratingHtml(webview: vscode.Webview): string {
+        const nonce = getNonce();
         return `<!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>Work Report</title>
-            <style>
+            <style nonce="${nonce}">
                 body {
                     font-family: var(--vscode-font-family);
                     padding: 20px;
@@ -218,15 +263,17 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     /**
      * Generate HTML for the report content
      */
-    private _getReportHtml(): string {
+    private _getReportHtml(webview: vscode.Webview): string {
+        const nonce = getNonce();
         const currentDate = dayjs().format('YYYY-MM-DD');
         return `<!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>Work Report</title>
-            <style>
+            <style nonce="${nonce}">
                 body {
                     font-family: var(--vscode-font-family);
                     padding: 20px;
@@ -246,16 +293,80 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
                 .report-content {
                     font-size: 14px;
                     line-height: 1.6;
-                    white-space: pre-wrap;
+                    overflow-wrap: break-word;
+                }
+                .streaming-indicator {
+                    font-size: 12px;
+                    font-style: italic;
+                    color: var(--vscode-descriptionForeground);
+                    margin-top: 10px;
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                }
+                .hidden {
+                    display: none;
+                }
+                .report-editor {
+                    width: 100%;
+                    min-height: 300px;
+                    box-sizing: border-box;
+                    padding: 8px;
+                    resize: vertical;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    color: var(--vscode-input-foreground);
+                    background-color: var(--vscode-input-background);
+                    border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+                }
+                .report-editor:focus {
+                    outline: 1px solid var(--vscode-focusBorder);
                 }
                 h2 {
                     margin-top: 20px;
                     border-bottom: 1px solid var(--vscode-panel-border);
                     padding-bottom: 4px;
                 }
-                ul {
+                ul, ol {
                     padding-left: 20px;
                 }
+                a {
+                    color: var(--vscode-textLink-foreground);
+                }
+                code {
+                    font-family: var(--vscode-editor-font-family);
+                    background-color: var(--vscode-textCodeBlock-background);
+                    padding: 1px 4px;
+                    border-radius: 3px;
+                }
+                pre {
+                    background-color: var(--vscode-textCodeBlock-background);
+                    padding: 8px 12px;
+                    border-radius: 4px;
+                    overflow-x: auto;
+                }
+                pre code {
+                    padding: 0;
+                    background-color: transparent;
+                }
+                blockquote {
+                    margin: 0;
+                    padding-left: 12px;
+                    border-left: 3px solid var(--vscode-textBlockQuote-border);
+                    color: var(--vscode-descriptionForeground);
+                }
+                table {
+                    border-collapse: collapse;
+                    margin: 12px 0;
+                }
+                th, td {
+                    border: 1px solid var(--vscode-panel-border);
+                    padding: 4px 8px;
+                    text-align: left;
+                }
+                img {
+                    max-width: 100%;
+                }
                 .actions {
                     margin-top: 30px;
                     display: flex;
@@ -285,16 +396,38 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
         <body>
             <div class="report-title">Work Report</div>
             <div class="report-date">Generated on: ${currentDate}</div>
-            <div class="report-content">${this._formatReportContent(this._report)}</div>
+            <div class="report-content" id="reportContent">${markdownToHtml(this._report, getIssueTrackers())}</div>
+            <textarea class="report-editor hidden" id="reportEditor" spellcheck="true">${escapeHtml(this._report)}</textarea>
+            <div class="streaming-indicator${this._isStreaming ? '' : ' hidden'}" id="streamingIndicator">
+                Receiving report...
+                <button class="action-button" id="stopBtn">Stop</button>
+            </div>
             
             <div class="actions">
-                <button class="action-button new-report-button" id="newReportBtn">New Report</button>
+                <button class="action-button new-report-button${this._isStreaming ? ' hidden' : ''}" id="newReportBtn">New Report</button>
+                <button class="action-button${this._isStreaming ? ' hidden' : ''}" id="editBtn">Edit</button>
                 <button class="action-button" id="copyReportBtn">Copy to Clipboard</button>
                 <button class="action-button" id="openEditorBtn">Open in Editor</button>
+                <button class="action-button" id="exportBtn">Export...</button>
             </div>
             
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
+                const reportContent = document.getElementById('reportContent');
+                const reportEditor = document.getElementById('reportEditor');
+                let editTimer;
+                
+                // Send pending edits before any action that uses the report text
+                function flushEdit() {
+                    if (editTimer !== undefined) {
+                        clearTimeout(editTimer);
+                        editTimer = undefined;
+                        vscode.postMessage({
+                            command: 'editReport',
+                            text: reportEditor.value
+                        });
+                    }
+                }
                 
                 // New report button
                 document.getElementById('newReportBtn').addEventListener('click', () => {
@@ -305,6 +438,7 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
                 
                 // Copy report button
                 document.getElementById('copyReportBtn').addEventListener('click', () => {
+                    flushEdit();
                     vscode.postMessage({
                         command: 'copyReport'
                     });
@@ -312,36 +446,63 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
                 
                 // Open in editor button
                 document.getElementById('openEditorBtn').addEventListener('click', () => {
+                    flushEdit();
                     vscode.postMessage({
                         command: 'openInEditor'
                     });
                 });
+                
+                // Export button
+                document.getElementById('exportBtn').addEventListener('click', () => {
+                    flushEdit();
+                    vscode.postMessage({
+                        command: 'exportReport'
+                    });
+                });
+                
+                // Edit button switches between the rendered report and its Markdown
+                const editBtn = document.getElementById('editBtn');
+                editBtn.addEventListener('click', () => {
+                    const editing = !reportEditor.classList.toggle('hidden');
+                    reportContent.classList.toggle('hidden', editing);
+                    editBtn.textContent = editing ? 'Preview' : 'Edit';
+                    if (editing) {
+                        reportEditor.focus();
+                    } else {
+                        flushEdit();
+                    }
+                });
+                
+                // Edits are sent once typing pauses
+                reportEditor.addEventListener('input', () => {
+                    clearTimeout(editTimer);
+                    editTimer = setTimeout(flushEdit, 300);
+                });
+                
+                // Stop button for in-progress generation
+                document.getElementById('stopBtn').addEventListener('click', () => {
+                    vscode.postMessage({
+                        command: 'stopGeneration'
+                    });
+                });
+                
+                // Streamed report updates from the extension
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.command === 'updateReport') {
+                        reportContent.innerHTML = message.html;
+                        
+                        // Show edits made in the editor document, unless they are being typed here
+                        if (document.activeElement !== reportEditor && reportEditor.value !== message.markdown) {
+                            reportEditor.value = message.markdown;
+                        }
+                    }
+                });
             </script>
         </body>
         </html>`;
     }
     
-    /**
-     * Format the report content with proper HTML formatting
-     */
-    private _formatReportContent(content: string): string {
-        // Convert markdown-style content to HTML
-        let formatted = content
-            .replace(/^# (.*$)/gm, '<h1>$1</h1>')
-            .replace(/^## (.*$)/gm, '<h2>$1</h2>')
-            .replace(/^### (.*$)/gm, '<h3>$1</h3>')
-            .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-            .replace(/\*(.*?)\*/g, '<em>$1</em>')
-            .replace(/- (.*$)/gm, '<li>$1</li>')
-            .replace(/<li>(.*)<\/li>/gm, function(match) {
-                return '<ul>' + match + '</ul>';
-            })
-            .replace(/<\/ul>\s*<ul>/g, '')
-            .replace(/\n\n/g, '<br><br>');
-            
-        return formatted;
-    }
-    
     /**
      * Show the generating UI
      */
@@ -350,7 +511,7 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
             return;
         }
         
-        this._view.webview.html = this._getGeneratingHtml();
+        this._view.webview.html = this._getGeneratingHtml(this._view.webview);
         this._isGenerating = true;
     }
     
@@ -361,137 +522,270 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
         // Call the AI report generator
         this.generateAIReport(commits);
     }
+    
+    /**
+     * Stop the report generation that is currently in progress
+     */
+    public stopGeneration(): void {
+        this._cancellation?.cancel();
+    }
 
     /**
-     * Generate an AI-powered report from commits with streaming updates
+     * Generate an AI-powered report from commits with streaming updates.
+     * Generation stops when the given token or the webview's Stop button is used.
+     * A template, when given, defines the layout of the report.
+     * @returns true if a complete report was generated
+     */
+    public async generateAIReport(
+        commits: CommitInfo[],
+        token?: vscode.CancellationToken,
+        template?: ReportTemplate,
+        period?: string
+    ): Promise<boolean> {
+        return this._generate({
+            title: 'Work Report',
+            period,
+            commits,
+            template: template?.label,
+            local: () => template ? renderReportTemplate(template, commits) : generateAIWorkReport(commits),
+            withProvider: (generator, options) => generateProviderReport(commits, generator, options, template)
+        }, token);
+    }
+    
+    /**
+     * Generate a "Yesterday / Today / Blockers" standup update with streaming updates.
+     * @returns true if a complete update was generated
      */
-    public async generateAIReport(commits: CommitInfo[]): Promise<void> {
-        // Generate a consistent date format for both methods
-        const currentDate = dayjs().format('YYYY-MM-DD HH:mm:ss');
-        const reportHeader = `# Work Report\nGenerated on: ${currentDate}\n\n`;
+    public async generateAIStandup(standup: StandupData, token?: vscode.CancellationToken): Promise<boolean> {
+        return this._generate({
+            title: 'Daily Standup',
+            period: `Since ${dayjs(standup.previousWorkday).format('YYYY-MM-DD')}`,
+            commits: standup.yesterday.concat(standup.today),
+            local: () => generateStandupReport(standup),
+            withProvider: (generator, options) => generateProviderStandupReport(standup, generator, options)
+        }, token);
+    }
+    
+    /**
+     * Let the user pick a generator and stream its output into the report view
+     */
+    private async _generate(
+        source: {
+            title: string;
+            period?: string;
+            commits: CommitInfo[];
+            template?: string;
+            local: () => string;
+            withProvider: (generator: ReportGenerator, options: GenerateReportOptions) => Promise<string>;
+        },
+        token?: vscode.CancellationToken
+    ): Promise<boolean> {
+        // Prevent multiple report generations at the same time
+        if (this._isGenerating) {
+            vscode.window.showInformationMessage('A report is already being generated, please wait.');
+            return false;
+        }
 
-        try {
-            // Prevent multiple report generations at the same time
-            if (this._isGenerating && !this._view) {
-                vscode.window.showInformationMessage('A report is already being generated, please wait.');
-                return;
-            }
+        // Combine the caller's token with the webview's Stop button
+        const cancellation = new vscode.CancellationTokenSource();
+        const tokenListener = token?.onCancellationRequested(() => cancellation.cancel());
+        this._cancellation = cancellation;
 
+        try {
             this._isGenerating = true;
             this.showGeneratingUI();
             
-            // Ask user which AI model to use
-            const aiOption = await vscode.window.showQuickPick(
-                [
-                    { label: 'OpenAI (GPT)', description: 'Generate report using OpenAI API (requires API key)', detail: 'More detailed and insightful reports' },
-                    { label: 'Local AI', description: 'Generate report using local code analysis', detail: 'Works offline, no API key needed' }
-                ],
-                { 
-                    placeHolder: 'Choose AI model for report generation'
-                }
-            );
+            // Ask user which AI model to use, listing every configured provider
+            const aiOptions: (vscode.QuickPickItem & { generator?: ReportGenerator })[] = getConfiguredReportGenerators().map(generator => ({
+                label: generator.label,
+                description: generator.description,
+                detail: 'More detailed and insightful reports',
+                generator
+            }));
+            aiOptions.push({ label: 'Local AI', description: 'Generate report using local code analysis', detail: 'Works offline, no API key needed' });
+            
+            const aiOption = await vscode.window.showQuickPick(aiOptions, { 
+                placeHolder: 'Choose AI model for report generation'
+            });
             
-            if (!aiOption) {
+            if (!aiOption || cancellation.token.isCancellationRequested) {
                 // User canceled - restore the button
                 this._isGenerating = false;
                 this._updateWebviewContent();
-                return;
+                return false;
             }
             
-            // Start with header in both cases
+            // Show the (empty) report page so streamed text can be appended to it
             this._report = '';
-            this._updateWebviewContent(); // Show the report header immediately
+            this._editorDocument = undefined;
+            this._reportInfo = {
+                title: source.title,
+                period: source.period,
+                generatedAt: new Date(),
+                generator: aiOption.label,
+                template: source.template,
+                commits: source.commits
+            };
+            this._isStreaming = true;
+            this._updateWebviewContent();
             
             // Generate the report based on user selection
-            if (aiOption.label === 'OpenAI (GPT)') {
+            if (aiOption.generator) {
                 try {
-                    // Generate with OpenAI
-                    const fullReport = await generateOpenAIReport(commits);
-                    
-                    // Stream the report content in chunks
-                    const chunks = this._chunkReportForStreaming(fullReport);
-                    for (const chunk of chunks) {
-                        this._report += chunk;
+                    // Stream the provider's output into the webview as it arrives
+                    this._report = await source.withProvider(aiOption.generator, {
+                        onChunk: chunk => {
+                            this._report += chunk;
+                            this._postReportUpdate();
+                        },
+                        token: cancellation.token
+                    });
+                } catch (providerError) {
+                    // A cancelled request keeps whatever text arrived before it was stopped
+                    if (!cancellation.token.isCancellationRequested) {
+                        // A failed report is shown but not offered to the report history
+                        this._showProviderError(aiOption.label, providerError);
+                        this._report += `\n\nError generating ${aiOption.label} report: ${providerError}`;
+                        this._isStreaming = false;
                         this._updateWebviewContent();
-                        
-                        // Small delay to simulate streaming
-                        await new Promise(resolve => setTimeout(resolve, 50));
+                        return false;
                     }
-                } catch (openaiError) {
-                    vscode.window.showErrorMessage(`Error with OpenAI: ${openaiError}`);
-                    this._report += `\n\nError generating OpenAI report: ${openaiError}`;
-                    this._updateWebviewContent();
                 }
             } else {
-                // Generate with local AI and stream it
-                const fullReport = generateAIWorkReport(commits);
-                
-                // Stream the report content in chunks
-                const chunks = this._chunkReportForStreaming(fullReport);
-                for (const chunk of chunks) {
-                    this._report += chunk;
-                    this._updateWebviewContent();
-                    
-                    // Small delay to simulate streaming
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                }
+                // The local generator produces the whole report at once
+                this._report = source.local();
             }
             
-            // Add a final completion message
-            this._report += `\n\n_Report generation completed at ${dayjs().format('HH:mm:ss')}_`;
+            const interrupted = cancellation.token.isCancellationRequested;
+            if (interrupted) {
+                // Make it obvious that the text above is not the full report
+                this._report += `\n\n---\n\n**Report generation was interrupted at ${dayjs().format('HH:mm:ss')}. This report is incomplete.**`;
+            } else {
+                // Add a final completion message
+                this._report += `\n\n_Report generation completed at ${dayjs().format('HH:mm:ss')}_`;
+            }
+            this._isStreaming = false;
             this._updateWebviewContent();
             
+            // Complete reports are offered to the report history
+            if (!interrupted && this._reportInfo) {
+                this._onDidGenerateReport.fire({ ...this._reportInfo, markdown: this._report });
+            }
+            
+            return !interrupted;
         } catch (error) {
             vscode.window.showErrorMessage(`Error generating AI report: ${error}`);
             console.error('[Report Pilot] Error in generateAIReport:', error);
             this._report = `Error generating report: ${error}`;
             this._updateWebviewContent();
+            return false;
         } finally {
             this._isGenerating = false;
+            this._isStreaming = false;
+            tokenListener?.dispose();
+            cancellation.dispose();
+            this._cancellation = undefined;
         }
     }
     
     /**
-     * Break a report into chunks for streaming display
+     * Tell the user why a provider could not write the report, offering to set a missing API key
      */
-    private _chunkReportForStreaming(report: string): string[] {
-        // Split by sections (## headers) or by lines
-        const sections: string[] = [];
-        const lines = report.split('\n');
-        let currentSection = '';
+    private _showProviderError(label: string, error: unknown): void {
+        console.error(`[Report Pilot] Error generating report with ${label}:`, error);
         
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            
-            // If we hit a header, start a new section
-            if (line.startsWith('## ') && currentSection) {
-                sections.push(currentSection);
-                currentSection = line + '\n';
-            } else {
-                currentSection += line + '\n';
-            }
-            
-            // Also break on paragraphs to get more fine-grained streaming
-            if (line === '' && currentSection.length > 50) {
-                sections.push(currentSection);
-                currentSection = '';
-            }
-            
-            // Break very long sections
-            if (currentSection.length > 200) {
-                sections.push(currentSection);
-                currentSection = '';
-            }
+        if (error instanceof MissingApiKeyError) {
+            vscode.window.showErrorMessage(error.message, 'Set API Key').then(selection => {
+                if (selection === 'Set API Key') {
+                    vscode.commands.executeCommand('report-pilot.setApiKey', error.providerId);
+                }
+            });
+            return;
         }
         
-        // Add any remaining content
-        if (currentSection) {
-            sections.push(currentSection);
+        vscode.window.showErrorMessage(`Error with ${label}: ${error}`);
+    }
+    
+    /**
+     * Push the current report content to the webview without reloading it
+     */
+    private _postReportUpdate(): void {
+        if (!this._view) {
+            return;
         }
         
-        return sections;
+        this._view.webview.postMessage({
+            command: 'updateReport',
+            html: markdownToHtml(this._report, getIssueTrackers()),
+            markdown: this._report
+        });
     }
-
+    
+    /**
+     * Replace the report text after an edit in the webview or in the linked editor document,
+     * then bring the other one up to date
+     */
+    private async _setReportText(text: string, source: 'webview' | 'editor'): Promise<void> {
+        if (text === this._report || this._isStreaming) {
+            return;
+        }
+        
+        this._report = text;
+        this._postReportUpdate();
+        this._scheduleEditNotification();
+        
+        const document = this._editorDocument;
+        if (source === 'webview' && document && !document.isClosed) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+                text
+            );
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
+    
+    /**
+     * Announce the edited report once the edits pause, rather than on every keystroke
+     */
+    private _scheduleEditNotification(): void {
+        const report = this.getExportableReport();
+        clearTimeout(this._editTimer);
+        this._editTimer = undefined;
+        if (!report) {
+            return;
+        }
+        
+        this._editTimer = setTimeout(() => {
+            this._editTimer = undefined;
+            this._onDidEditReport.fire(report);
+        }, EDIT_NOTIFICATION_DELAY);
+    }
+    
+    /**
+     * Open the report in a Markdown editor. The document stays linked to the report,
+     * so edits made there or in the webview show up in both places.
+     */
+    public async openInEditor(): Promise<void> {
+        if (!this._report) {
+            vscode.window.showInformationMessage('No report has been generated yet.');
+            return;
+        }
+        if (this._isStreaming) {
+            vscode.window.showInformationMessage('A report is being generated, please wait until it is finished.');
+            return;
+        }
+        
+        if (!this._editorDocument || this._editorDocument.isClosed) {
+            this._editorDocument = await vscode.workspace.openTextDocument({
+                content: this._report,
+                language: 'markdown'
+            });
+        }
+        await vscode.window.showTextDocument(this._editorDocument, { preview: true });
+    }
+    
     /**
      * Get the full report text
      */
@@ -500,10 +794,63 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     }
     
     /**
-     * Clear the current report and show the Generate button again
+     * Get the current report with the data it was generated from, for exporting
+     */
+    public getExportableReport(): ExportableReport | undefined {
+        if (!this._report || !this._reportInfo || this._isStreaming) {
+            return undefined;
+        }
+        
+        return { ...this._reportInfo, markdown: this._report };
+    }
+    
+    /**
+     * Show a previously generated report, e.g. one reopened from the report history
+     */
+    public showReport(report: ExportableReport): boolean {
+        if (this._isGenerating) {
+            vscode.window.showInformationMessage('A report is being generated, please wait until it is finished.');
+            return false;
+        }
+        
+        const { markdown, ...info } = report;
+        this._report = markdown;
+        this._reportInfo = info;
+        this._editorDocument = undefined;
+        this._updateWebviewContent();
+        return true;
+    }
+    
+    /**
+     * Clear the current report and show the Generate button again.
+     * A report that is being generated is left alone; Stop ends it.
      */
     public clearReport(): void {
+        if (this._isGenerating) {
+            vscode.window.showInformationMessage('A report is being generated, please wait until it is finished.');
+            return;
+        }
+        
         this._report = '';
+        this._reportInfo = undefined;
+        this._editorDocument = undefined;
         this._updateWebviewContent();
     }
+    
+    /**
+     * Stop listening for editor document changes
+     */
+    public dispose(): void {
+        // Pass on the last edit instead of dropping it
+        if (this._editTimer) {
+            clearTimeout(this._editTimer);
+            this._editTimer = undefined;
+            const report = this.getExportableReport();
+            if (report) {
+                this._onDidEditReport.fire(report);
+            }
+        }
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
 }
\ No newline at end of file
@@ -1,7 +1,15 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
 import * as vscode from 'vscode';
 import * as dayjs from 'dayjs';
-import { getDateRange } from '../utils/gitUtils';
+import { attributeCommitsToBranches, detectPullRequests, estimateWorkTime, getCommitFileChanges, getDateRange, parseRelativeDateRange } from '../utils/gitUtils';
+import { renderTemplate } from '../utils/templateUtils';
+import { markdownToHtml } from '../utils/markdownUtils';
+import { extractIssueKeys, formatIssueLabel, getIssueUrl, parseIssueCsv, parseIssueJson } from '../utils/issueUtils';
+import { matchesCommitFilter, parseCommitFilter } from '../utils/commitFilter';
 
 suite('Report Pilot Extension Test Suite', () => {
 	vscode.window.showInformationMessage('Starting Report Pilot tests');
@@ -32,4 +40,234 @@ suite('Report Pilot Extension Test Suite', () => {
 		assert.ok(yesterdayRange.from.getTime() < today.getTime());
 		assert.ok(yesterdayRange.to.getTime() < today.getTime());
 	});
-});
\ No newline at end of file
+
+	test('Extended time spans follow the week start day and sprint cadence', () => {
+		const now = new Date(2024, 4, 15, 10, 0); // Wednesday
+		const endOfDay = (year: number, month: number, day: number) => new Date(year, month, day, 23, 59, 59, 999);
+		const options = { weekStartDay: 1, days: 7, sprintStartDate: '2024-01-01', sprintLengthWeeks: 2 };
+
+		assert.deepStrictEqual(getDateRange('thisWeek', options, now), { from: new Date(2024, 4, 13), to: now });
+		assert.deepStrictEqual(getDateRange('lastWeek', { weekStartDay: 0 }, now), { from: new Date(2024, 4, 5), to: endOfDay(2024, 4, 11) });
+		assert.deepStrictEqual(getDateRange('lastMonth', options, now), { from: new Date(2024, 3, 1), to: endOfDay(2024, 3, 30) });
+		assert.deepStrictEqual(getDateRange('thisQuarter', options, now), { from: new Date(2024, 3, 1), to: now });
+		assert.deepStrictEqual(getDateRange('lastQuarter', options, now), { from: new Date(2024, 0, 1), to: endOfDay(2024, 2, 31) });
+		assert.deepStrictEqual(getDateRange('lastNDays', options, now), { from: new Date(2024, 4, 9), to: now });
+		assert.deepStrictEqual(getDateRange('thisSprint', options, now), { from: new Date(2024, 4, 6), to: now });
+		assert.deepStrictEqual(getDateRange('lastSprint', options, now), { from: new Date(2024, 3, 22), to: endOfDay(2024, 4, 5) });
+
+		// A sprint start date in the future counts backwards
+		assert.deepStrictEqual(getDateRange('thisSprint', { ...options, sprintStartDate: '2024-06-03' }, now).from, new Date(2024, 4, 6));
+		assert.throws(() => getDateRange('thisSprint', { weekStartDay: 0 }, now), /sprintStartDate/);
+	});
+
+	test('Typed date ranges are parsed and validated', () => {
+		const now = new Date(2024, 4, 15, 10, 0);
+
+		assert.deepStrictEqual(parseRelativeDateRange('last 10 days', {}, now), { from: new Date(2024, 4, 6), to: now });
+		assert.deepStrictEqual(parseRelativeDateRange('2024-05-01 to 2024-05-10', {}, now), { from: new Date(2024, 4, 1), to: new Date(2024, 4, 10, 23, 59, 59, 999) });
+		assert.deepStrictEqual(parseRelativeDateRange('This Month', {}, now), { from: new Date(2024, 4, 1), to: now });
+		assert.strictEqual(parseRelativeDateRange('2024-05-10 to 2024-05-01', {}, now), undefined);
+		assert.strictEqual(parseRelativeDateRange('2024-02-30', {}, now), undefined);
+		assert.strictEqual(parseRelativeDateRange('next tuesday', {}, now), undefined);
+	});
+
+	test('Report templates render placeholders, loops and conditions', () => {
+		const template = [
+			'# {{title}}',
+			'{{#each days}}',
+			'## {{date}}',
+			'{{#each commits}}',
+			'{{@number}}. {{message}}{{#if branch}} [{{branch}}]{{/if}} - {{title}}',
+			'{{/each}}',
+			'{{else}}',
+			'No work',
+			'{{/each}}',
+			''
+		].join('\n');
+
+		const rendered = renderTemplate(template, {
+			title: 'Weekly',
+			days: [{ date: '2024-01-02', commits: [{ message: 'Add login', branch: 'auth' }, { message: 'Fix typo' }] }]
+		});
+		assert.strictEqual(rendered, '# Weekly\n## 2024-01-02\n1. Add login [auth] - Weekly\n2. Fix typo - Weekly\n');
+
+		assert.strictEqual(renderTemplate(template, { title: 'Empty', days: [] }), '# Empty\nNo work\n');
+		assert.throws(() => renderTemplate('{{#each days}}', {}), /never closed/);
+	});
+
+	test('Commit filters match text, regex, author, branch, path and type', () => {
+		const commit = (message: string, author: string, branch: string | undefined, files: string[]) => ({
+			hash: 'abc1234', message, author, branch, date: new Date(),
+			fileChanges: files.map(file => ({ path: file, insertions: 1, deletions: 0, binary: false }))
+		});
+		const commits = [
+			commit('feat: add login page', 'Alice', 'main', ['src/ui/login.tsx', 'README.md']),
+			commit('fix: crash on logout', 'Bob', 'dev', ['src/auth/session.ts']),
+			commit('docs: update guide', 'Alice', undefined, ['docs/guide.md'])
+		];
+		const matching = (query: string) => {
+			const filter = parseCommitFilter(query);
+			return commits.filter(item => !filter || matchesCommitFilter(item, filter)).map(item => item.message);
+		};
+
+		assert.deepStrictEqual(matching('login'), ['feat: add login page']);
+		assert.deepStrictEqual(matching('author:alice type:docs'), ['docs: update guide']);
+		assert.deepStrictEqual(matching('branch:dev'), ['fix: crash on logout']);
+		assert.deepStrictEqual(matching('path:src/**/*.ts'), ['fix: crash on logout']);
+		assert.deepStrictEqual(matching('path:*.md'), ['feat: add login page', 'docs: update guide']);
+		assert.deepStrictEqual(matching('/^(feat|fix):/'), ['feat: add login page', 'fix: crash on logout']);
+		const sticky = parseCommitFilter('/fix/gy');
+		assert.ok(sticky && matchesCommitFilter(commits[1], sticky) && matchesCommitFilter(commits[1], sticky));
+		assert.strictEqual(parseCommitFilter('  '), undefined);
+		assert.throws(() => parseCommitFilter('type:unknown'), /Unknown commit type/);
+	});
+
+	test('Commits are attributed to the branch they were authored on', () => {
+		// main: a - b - m1 (merges PR #12: c - d) - m2 (merges fix: e), wip: f on top of main
+		const graph = [
+			{ hash: 'f', parents: ['m2'], subject: 'wip' },
+			{ hash: 'm2', parents: ['m1', 'e'], subject: "Merge branch 'fix' into main" },
+			{ hash: 'e', parents: ['m1'], subject: 'fix' },
+			{ hash: 'm1', parents: ['b', 'd'], subject: 'Merge pull request #12 from alice/feature/login' },
+			{ hash: 'd', parents: ['c'], subject: 'login 2' },
+			{ hash: 'c', parents: ['a'], subject: 'login 1' },
+			{ hash: 'b', parents: ['a'], subject: 'b' },
+			{ hash: 'a', parents: [], subject: 'a' }
+		];
+		const refs = [
+			{ name: 'wip', shortName: 'wip', hash: 'f', remote: false },
+			{ name: 'main', shortName: 'origin/main', hash: 'm2', remote: true }
+		];
+
+		const branches = attributeCommitsToBranches(graph, refs);
+		assert.deepStrictEqual(
+			graph.map(node => branches.get(node.hash)),
+			['wip', 'main', 'fix', 'main', 'feature/login', 'feature/login', 'main', 'main']
+		);
+	});
+
+	test('Merge commits list the files they bring into the branch', async () => {
+		const repository = fs.mkdtempSync(path.join(os.tmpdir(), 'report-pilot-'));
+		const git = (...args: string[]) => execFileSync('git', args, { cwd: repository, encoding: 'utf8' }).trim();
+		const commit = (file: string, content: string) => {
+			fs.writeFileSync(path.join(repository, file), content);
+			git('add', file);
+			git('commit', '-q', '-m', `Change ${file}`);
+		};
+		const changesOf = async (revision: string) =>
+			(await getCommitFileChanges(git('rev-parse', revision), repository)).map(change => `${change.status} ${change.path}`);
+
+		try {
+			git('init', '-q');
+			git('config', 'user.name', 'Test');
+			git('config', 'user.email', 'test@example.com');
+			commit('shared.txt', 'base\n');
+			git('branch', 'feature');
+			commit('main.txt', 'main\n');
+			git('checkout', '-q', 'feature');
+			commit('feature.txt', 'feature\n');
+			commit('shared.txt', 'feature\n');
+			git('checkout', '-q', '-');
+
+			// A clean merge brings in everything from the feature branch
+			git('merge', '-q', '--no-ff', '-m', 'Merge feature', 'feature');
+			assert.deepStrictEqual(await changesOf('HEAD'), ['A feature.txt', 'M shared.txt']);
+
+			// A merge with a resolved conflict lists the resolved file like any other change
+			git('checkout', '-q', '-b', 'other', 'HEAD~1');
+			commit('shared.txt', 'other\n');
+			git('checkout', '-q', 'feature');
+			try {
+				git('merge', '-q', 'other');
+			} catch {
+				fs.writeFileSync(path.join(repository, 'shared.txt'), 'resolved\n');
+				git('commit', '-q', '-am', 'Merge other');
+			}
+			assert.deepStrictEqual(await changesOf('HEAD'), ['A main.txt', 'M shared.txt']);
+		} finally {
+			fs.rmSync(repository, { recursive: true, force: true });
+		}
+	});
+
+	test('Pull requests are detected from merge and squash-merge commits', () => {
+		const graph = [
+			{ hash: 's', parents: ['m'], subject: 'Add checkout page (#14)' },
+			{ hash: 'm', parents: ['b', 'd'], subject: 'Merge pull request #12 from alice/login', body: 'Add login page' },
+			{ hash: 'd', parents: ['c'], subject: 'Validate login form' },
+			{ hash: 'c', parents: ['a'], subject: 'Add login form' },
+			{ hash: 'b', parents: ['a'], subject: 'Fix crash (#3)' },
+			{ hash: 'a', parents: [], subject: 'Initial commit' }
+		];
+		const refs = [
+			{ name: 'main', shortName: 'main', hash: 's', remote: false },
+			{ name: 'topic', shortName: 'topic', hash: 'x', remote: false }
+		];
+
+		const pullRequests = detectPullRequests(graph, refs);
+		assert.deepStrictEqual(
+			graph.map(node => pullRequests.get(node.hash)?.number),
+			[14, 12, 12, 12, 3, undefined]
+		);
+		assert.strictEqual(pullRequests.get('c')?.title, 'Add login page');
+		assert.strictEqual(pullRequests.get('s')?.squashed, true);
+	});
+
+	test('Issue keys are extracted and linked', () => {
+		const trackers = [
+			{ pattern: /\bGH-\d+\b/, url: 'https://github.com/owner/repo/issues/{number}' },
+			{ pattern: /\b[A-Z][A-Z0-9_]+-\d+\b/, url: 'https://jira.example.com/browse/{key}' },
+			{ pattern: /(?<![\w&/])#\d+\b/ }
+		];
+
+		assert.deepStrictEqual(extractIssueKeys('PROJ-12: fix GH-78 and #456 (PROJ-12)', trackers), ['PROJ-12', 'GH-78', '#456']);
+		assert.deepStrictEqual(extractIssueKeys('PROJ-7: read UTF-8, hash with SHA-256, log ISO-8601 dates'), ['PROJ-7']);
+		assert.strictEqual(getIssueUrl('GH-78', trackers), 'https://github.com/owner/repo/issues/78');
+		assert.strictEqual(getIssueUrl('#456', trackers), undefined);
+		assert.strictEqual(
+			markdownToHtml('Done PROJ-12, #456 and `PROJ-9`', trackers),
+			'<p>Done <a href="https://jira.example.com/browse/PROJ-12">PROJ-12</a>, #456 and <code>PROJ-9</code></p>\n'
+		);
+	});
+
+	test('Issue metadata is read from JSON and CSV exports', () => {
+		const csv = 'Summary,Issue key,Status\r\n"Checkout redesign, phase 2",PROJ-123,In Review\r\n';
+		assert.deepStrictEqual(parseIssueCsv(csv), [{ key: 'PROJ-123', title: 'Checkout redesign, phase 2', status: 'In Review' }]);
+
+		const jira = { issues: [{ key: 'PROJ-5', fields: { summary: 'Login', status: { name: 'Done' } } }] };
+		assert.deepStrictEqual(parseIssueJson(jira), [{ key: 'PROJ-5', title: 'Login', status: 'Done' }]);
+		assert.deepStrictEqual(parseIssueJson([{ number: 4, title: 'Crash', state: 'open' }]), [{ key: '#4', title: 'Crash', status: 'open' }]);
+		assert.deepStrictEqual(parseIssueJson({ 'PROJ-9': 'Search' }), [{ key: 'PROJ-9', title: 'Search' }]);
+
+		assert.strictEqual(formatIssueLabel('PROJ-123', { key: 'PROJ-123', title: 'Checkout redesign', status: 'In Review' }), 'PROJ-123 Checkout redesign (In Review)');
+		assert.strictEqual(formatIssueLabel('PROJ-9'), 'PROJ-9');
+	});
+
+	test('Work time is estimated from commit sessions', () => {
+		const commit = (time: string, author: string, branch: string, issueKeys: string[]) => ({
+			hash: time, message: 'work', author, branch, issueKeys, date: new Date(`2024-03-04T${time}:00`)
+		});
+		const commits = [
+			commit('09:00', 'Alice', 'feature', ['PROJ-1']),
+			commit('10:00', 'Alice', 'feature', ['PROJ-1', 'PROJ-2']),
+			commit('15:00', 'Alice', 'main', []),
+			commit('10:00', 'Bob', 'main', [])
+		];
+
+		// Alice: 30 + 60 minutes in the morning session, 30 in the afternoon one; Bob: 30
+		const estimate = estimateWorkTime(commits, { sessionGapMinutes: 120, firstCommitMinutes: 30 });
+		assert.strictEqual(estimate.totalMinutes, 150);
+		assert.strictEqual(estimate.sessions.length, 3);
+		assert.deepStrictEqual(Array.from(estimate.byDay.entries()), [['2024-03-04', 150]]);
+		assert.deepStrictEqual(Array.from(estimate.byBranch.entries()), [['feature', 90], ['main', 60]]);
+		assert.deepStrictEqual(Array.from(estimate.byIssue.entries()), [['PROJ-1', 60], ['PROJ-2', 30]]);
+	});
+
+	test('Report Markdown is rendered and sanitized', () => {
+		assert.strictEqual(markdownToHtml('## Done\n- **Login** `api`'), '<h2>Done</h2>\n<ul>\n<li><strong>Login</strong> <code>api</code></li>\n</ul>\n');
+
+		const html = markdownToHtml('<img src=x onerror=alert(1)> [link](javascript:alert(1)) [ok](https://example.com)');
+		assert.ok(!html.includes('<img'));
+		assert.ok(!html.includes('href="javascript:'));
+		assert.ok(html.includes('<a href="https://example.com">ok</a>'));
+	});
+});
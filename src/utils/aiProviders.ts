@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import { OpenAI } from 'openai';
+import { initializeOpenAI } from './aiUtils';
+import { postJsonStream, parseSseData } from './httpUtils';
+import { LocalModelReportGenerator, isLocalModelEnabled } from './localModels';
+import { toAbortSignal } from './cancellationUtils';
+import { getApiKey } from './secretUtils';
+
+/**
+ * Supported AI provider types
+ */
+export type AIProviderType = 'openai' | 'azureOpenAI' | 'anthropic' | 'openaiCompatible';
+
+/**
+ * Configuration for an AI provider as stored in the `reportPilot.aiProviders` setting.
+ * API keys are not part of it; they live in secret storage keyed by provider id.
+ */
+export interface AIProviderConfig {
+    id: string;
+    type: AIProviderType;
+    label?: string;
+    model?: string;
+    baseUrl?: string;
+    deployment?: string;
+    apiVersion?: string;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+/**
+ * The prompt sent to a report generator
+ */
+export interface ReportPrompt {
+    system: string;
+    user: string;
+}
+
+/**
+ * Callback receiving report text as the provider streams it
+ */
+export type ReportChunkHandler = (chunk: string) => void;
+
+/**
+ * Options for a single report generation
+ */
+export interface GenerateReportOptions {
+    onChunk?: ReportChunkHandler;
+    token?: vscode.CancellationToken;
+}
+
+/**
+ * A backend that turns a report prompt into a written report.
+ * Text is streamed to `onChunk` as it arrives; the full report is returned at the end.
+ * Cancelling the token aborts the in-flight request.
+ */
+export interface ReportGenerator {
+    readonly id: string;
+    readonly label: string;
+    readonly description: string;
+    generateReport(prompt: ReportPrompt, options?: GenerateReportOptions): Promise<string>;
+}
+
+/**
+ * Error thrown when a provider that needs an API key has none in secret storage
+ */
+export class MissingApiKeyError extends Error {
+    constructor(public readonly providerId: string, label: string) {
+        super(`No API key stored for ${label}. Run "Report Pilot: Set API Key" first.`);
+    }
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2000;
+
+/**
+ * Provider used when the `reportPilot.aiProviders` setting is empty
+ */
+const DEFAULT_PROVIDERS: AIProviderConfig[] = [
+    { id: 'openai', type: 'openai', label: 'OpenAI (GPT)', model: 'gpt-3.5-turbo' }
+];
+
+/**
+ * Generator for OpenAI, Azure OpenAI and OpenAI-compatible endpoints,
+ * all of which speak the chat completions API
+ */
+export class OpenAIReportGenerator implements ReportGenerator {
+    public readonly id: string;
+    public readonly label: string;
+    public readonly description: string;
+
+    constructor(private readonly config: AIProviderConfig) {
+        this.id = config.id;
+        this.label = config.label || getDefaultLabel(config.type);
+        this.description = config.type === 'azureOpenAI'
+            ? `Azure OpenAI deployment ${config.deployment || config.model || ''}`.trim()
+            : `${config.model || 'gpt-3.5-turbo'}${config.baseUrl ? ` at ${config.baseUrl}` : ''}`;
+    }
+
+    public async generateReport(prompt: ReportPrompt, options: GenerateReportOptions = {}): Promise<string> {
+        const client: OpenAI = await initializeOpenAI(this.config, this.label);
+
+        const abort = toAbortSignal(options.token);
+        try {
+            const stream = await client.chat.completions.create({
+                // Azure routes by deployment, but the SDK still requires a model name
+                model: this.config.model || this.config.deployment || 'gpt-3.5-turbo',
+                messages: [
+                    { role: 'system', content: prompt.system },
+                    { role: 'user', content: prompt.user }
+                ],
+                temperature: this.config.temperature ?? DEFAULT_TEMPERATURE,
+                max_tokens: this.config.maxTokens ?? DEFAULT_MAX_TOKENS,
+                stream: true
+            }, { signal: abort?.signal });
+
+            let reportContent = '';
+            for await (const chunk of stream) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) {
+                    reportContent += text;
+                    options.onChunk?.(text);
+                }
+            }
+
+            if (!reportContent) {
+                throw new Error(`No content received from ${this.label}`);
+            }
+
+            return reportContent;
+        } finally {
+            abort?.dispose();
+        }
+    }
+}
+
+/**
+ * Generator for the Anthropic Messages API
+ */
+export class AnthropicReportGenerator implements ReportGenerator {
+    public readonly id: string;
+    public readonly label: string;
+    public readonly description: string;
+
+    constructor(private readonly config: AIProviderConfig) {
+        this.id = config.id;
+        this.label = config.label || getDefaultLabel(config.type);
+        this.description = config.model || 'claude-3-5-sonnet-latest';
+    }
+
+    public async generateReport(prompt: ReportPrompt, options: GenerateReportOptions = {}): Promise<string> {
+        const apiKey = await getApiKey(this.config.id);
+        if (!apiKey) {
+            throw new MissingApiKeyError(this.config.id, this.label);
+        }
+
+        const baseUrl = (this.config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+        let reportContent = '';
+
+        const abort = toAbortSignal(options.token);
+        try {
+            await postJsonStream(`${baseUrl}/v1/messages`, {
+                model: this.config.model || 'claude-3-5-sonnet-latest',
+                system: prompt.system,
+                messages: [{ role: 'user', content: prompt.user }],
+                temperature: this.config.temperature ?? DEFAULT_TEMPERATURE,
+                max_tokens: this.config.maxTokens ?? DEFAULT_MAX_TOKENS,
+                stream: true
+            }, line => {
+                const data = parseSseData(line);
+                if (!data) {
+                    return;
+                }
+
+                // Only text deltas carry report content; other events are bookkeeping
+                const event = JSON.parse(data);
+                if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                    reportContent += event.delta.text;
+                    options.onChunk?.(event.delta.text);
+                } else if (event.type === 'error') {
+                    throw new Error(event.error?.message || 'Anthropic stream error');
+                }
+            }, {
+                'x-api-key': apiKey,
+                'anthropic-version': '2023-06-01'
+            }, abort?.signal);
+        } finally {
+            abort?.dispose();
+        }
+
+        if (!reportContent) {
+            throw new Error(`No content received from ${this.label}`);
+        }
+
+        return reportContent;
+    }
+}
+
+/**
+ * Create a report generator for a provider configuration
+ */
+export function createReportGenerator(config: AIProviderConfig): ReportGenerator {
+    switch (config.type) {
+        case 'anthropic':
+            return new AnthropicReportGenerator(config);
+        case 'openai':
+        case 'azureOpenAI':
+        case 'openaiCompatible':
+            return new OpenAIReportGenerator(config);
+        default:
+            throw new Error(`Unknown AI provider type: ${(config as AIProviderConfig).type}`);
+    }
+}
+
+/**
+ * Read the AI providers configured in settings
+ */
+export function getAIProviderConfigs(): AIProviderConfig[] {
+    const config = vscode.workspace.getConfiguration('reportPilot');
+    const providers = config.get<AIProviderConfig[]>('aiProviders', []);
+    const configured = providers.length > 0 ? providers : DEFAULT_PROVIDERS;
+
+    return configured.filter(provider => provider && provider.id && provider.type);
+}
+
+/**
+ * Get a report generator for every configured AI provider
+ */
+export function getConfiguredReportGenerators(): ReportGenerator[] {
+    const generators: ReportGenerator[] = [];
+
+    for (const providerConfig of getAIProviderConfigs()) {
+        try {
+            generators.push(createReportGenerator(providerConfig));
+        } catch (error) {
+            console.error(`[Report Pilot] Skipping AI provider ${providerConfig.id}:`, error);
+        }
+    }
+
+    // Local models run on this machine, so commit data never leaves it
+    if (isLocalModelEnabled()) {
+        generators.push(new LocalModelReportGenerator());
+    }
+
+    return generators;
+}
+
+/**
+ * Default display label for a provider type
+ */
+function getDefaultLabel(type: AIProviderType): string {
+    switch (type) {
+        case 'openai': return 'OpenAI (GPT)';
+        case 'azureOpenAI': return 'Azure OpenAI';
+        case 'anthropic': return 'Anthropic (Claude)';
+        case 'openaiCompatible': return 'OpenAI-compatible';
+        default: return type;
+    }
+}
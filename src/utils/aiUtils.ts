@@ -1,117 +1,113 @@
 import * as vscode from 'vscode';
-import { OpenAI } from 'openai';
-import { CommitInfo } from './gitUtils';
+import { OpenAI, AzureOpenAI } from 'openai';
+import { CommitInfo, StandupData, getPullRequestLabel } from './gitUtils';
+import { AIProviderConfig, GenerateReportOptions, MissingApiKeyError, ReportGenerator, ReportPrompt } from './aiProviders';
+import { getApiKey } from './secretUtils';
+import { ReportTemplate } from './templateUtils';
+import { formatIssueLabel, groupCommitsByIssue } from './issueUtils';
 import dayjs from 'dayjs';
 
-// Global OpenAI client
-let openaiClient: OpenAI | null = null;
+// OpenAI clients keyed by provider id
+const openaiClients = new Map<string, { apiKey: string; client: OpenAI }>();
 
 /**
- * Initialize the OpenAI client with the API key from settings
+ * Initialize an OpenAI client for a provider configuration,
+ * reading the provider's API key from secret storage
+ * @throws MissingApiKeyError when the provider needs a key and none is stored
  */
-export function initializeOpenAI(): boolean {
-    try {
-        const apiKey = vscode.workspace.getConfiguration('reportPilot').get('openaiApiKey') as string;
-        
-        if (!apiKey) {
-            vscode.window.showErrorMessage(
-                'OpenAI API key not found. Please add it in settings.',
-                'Open Settings'
-            ).then(selection => {
-                if (selection === 'Open Settings') {
-                    vscode.commands.executeCommand(
-                        'workbench.action.openSettings',
-                        'reportPilot.openaiApiKey'
-                    );
-                }
-            });
-            return false;
-        }
-        
-        openaiClient = new OpenAI({
-            apiKey: apiKey
-        });
-        
-        return true;
-    } catch (error) {
-        console.error('[Report Pilot] Failed to initialize OpenAI client:', error);
-        vscode.window.showErrorMessage(`Failed to initialize OpenAI client: ${error}`);
-        return false;
+export async function initializeOpenAI(provider: AIProviderConfig, label: string = provider.label || provider.id): Promise<OpenAI> {
+    // OpenAI-compatible servers (e.g. local proxies) often do not need a key
+    const storedKey = await getApiKey(provider.id);
+    const apiKey = storedKey || (provider.type === 'openaiCompatible' ? 'not-needed' : '');
+    
+    if (!apiKey) {
+        throw new MissingApiKeyError(provider.id, label);
     }
+    
+    const cached = openaiClients.get(provider.id);
+    if (cached && cached.apiKey === apiKey) {
+        return cached.client;
+    }
+    
+    const client = provider.type === 'azureOpenAI'
+        ? new AzureOpenAI({
+            apiKey: apiKey,
+            endpoint: provider.baseUrl,
+            deployment: provider.deployment,
+            apiVersion: provider.apiVersion || '2024-06-01'
+        })
+        : new OpenAI({
+            apiKey: apiKey,
+            baseURL: provider.baseUrl || undefined
+        });
+    
+    openaiClients.set(provider.id, { apiKey, client });
+    return client;
 }
 
 /**
- * Generate a work report using OpenAI based on commit history
+ * Generate a work report with an AI provider based on commit history,
+ * streaming the text to `options.onChunk` as the provider produces it.
+ * When a template is given the report follows its layout.
+ * Errors, including cancellation, are left to the caller.
  */
-export async function generateOpenAIReport(commits: CommitInfo[]): Promise<string> {
-    // Make sure client is initialized
-    if (!openaiClient) {
-        if (!initializeOpenAI()) {
-            return 'Failed to initialize OpenAI client. Please check your API key in settings.';
-        }
+export async function generateProviderReport(
+    commits: CommitInfo[],
+    generator: ReportGenerator,
+    options: GenerateReportOptions = {},
+    template?: ReportTemplate
+): Promise<string> {
+    if (commits.length === 0) {
+        return 'No commits found in the selected time period.';
     }
     
-    // Double-check client is available after initialization
-    if (!openaiClient) {
-        return 'Could not initialize OpenAI client. Please check your API key and try again.';
-    }
+    // Format commit data for the prompt
+    const commitData = formatCommitDataForPrompt(commits);
     
-    try {
-        if (commits.length === 0) {
-            return 'No commits found in the selected time period.';
-        }
-        
-        // Format commit data for the prompt
-        const commitData = formatCommitDataForPrompt(commits);
-        
-        // Create the prompt for OpenAI
-        const prompt = createWorkReportPrompt(commitData);
-        
-        // Call OpenAI API with the now non-null client
-        const response = await openaiClient.chat.completions.create({
-            model: "gpt-3.5-turbo",
-            messages: [
-                {
-                    role: "system", 
-                    content: "You are a technical writing assistant that creates professional work reports from git commit history."
-                },
-                { 
-                    role: "user", 
-                    content: prompt
-                }
-            ],
-            temperature: 0.7,
-            max_tokens: 2000
-        });
-        
-        // Extract and return the generated report
-        const reportContent = response.choices[0]?.message?.content;
-        
-        if (!reportContent) {
-            throw new Error('No content received from OpenAI');
-        }
-        
-        return reportContent;
-    } catch (error) {
-        console.error('[Report Pilot] Error generating report with OpenAI:', error);
-        vscode.window.showErrorMessage(`Failed to generate report: ${error}`);
-        
-        // Return a fallback report
-        return `# Work Report (Fallback)
+    // Create the prompt for the provider
+    const prompt: ReportPrompt = {
+        system: REPORT_SYSTEM_PROMPT,
+        user: createWorkReportPrompt(commitData, getRepositoryNames(commits), template, groupCommitsByIssue(commits).map(issue => issue.key))
+    };
+    
+    return generator.generateReport(prompt, options);
+}
 
-OpenAI report generation failed with error: ${error}
+/**
+ * Generate a daily standup update with an AI provider,
+ * streaming the text to `options.onChunk` as the provider produces it.
+ * Errors, including cancellation, are left to the caller.
+ */
+export async function generateProviderStandupReport(
+    standup: StandupData,
+    generator: ReportGenerator,
+    options: GenerateReportOptions = {}
+): Promise<string> {
+    const prompt: ReportPrompt = {
+        system: STANDUP_SYSTEM_PROMPT,
+        user: createStandupPrompt(formatStandupDataForPrompt(standup))
+    };
+    
+    return generator.generateReport(prompt, options);
+}
 
-## Commit Summary
+/**
+ * System prompt shared by all AI providers
+ */
+export const REPORT_SYSTEM_PROMPT = "You are a technical writing assistant that creates professional work reports from git commit history.";
 
-${commits.map(commit => `- ${commit.message} (${commit.hash})`).join('\n')}
-`;
-    }
-}
+/**
+ * System prompt for daily standup updates
+ */
+export const STANDUP_SYSTEM_PROMPT = "You are an assistant that writes short, plain-spoken daily standup updates from a developer's git activity.";
+
+// Keep prompts for large commits within a reasonable size
+const MAX_PROMPT_FILES_PER_COMMIT = 10;
 
 /**
- * Format commit data for the OpenAI prompt
+ * Format commit data for the AI prompt
  */
-function formatCommitDataForPrompt(commits: CommitInfo[]): string {
+export function formatCommitDataForPrompt(commits: CommitInfo[]): string {
     const dateFormat = vscode.workspace.getConfiguration('reportPilot').get('dateFormat', 'YYYY-MM-DD');
     
     // Group commits by day for better organization
@@ -128,6 +124,9 @@ function formatCommitDataForPrompt(commits: CommitInfo[]): string {
     // Build a formatted string representation of commits
     let formattedData = '';
     
+    // Name the repository of each commit when they come from several
+    const showRepository = getRepositoryNames(commits).length > 1;
+    
     // Sort days chronologically
     const sortedDays = Array.from(commitsByDay.keys()).sort();
     
@@ -136,27 +135,146 @@ function formatCommitDataForPrompt(commits: CommitInfo[]): string {
         formattedData += `## ${day}\n\n`;
         
         for (const commit of dayCommits) {
-            formattedData += `- "${commit.message}" by ${commit.author} (${commit.hash})\n`;
+            // Name the pull request so the report can present merged work per pull request
+            const pullRequest = commit.pullRequest ? ` [${getPullRequestLabel(commit.pullRequest)}]` : '';
+            formattedData += showRepository && commit.repository
+                ? `- [${commit.repository}] "${commit.message}" by ${commit.author} (${commit.hash})${pullRequest}\n`
+                : `- "${commit.message}" by ${commit.author} (${commit.hash})${pullRequest}\n`;
+            
+            // List the touched files so the report can describe what actually changed
+            formattedData += formatFileChangesForPrompt(commit);
         }
         
         formattedData += '\n';
     }
     
+    // List the commits of each issue so the report can describe the work per issue
+    const issues = groupCommitsByIssue(commits);
+    if (issues.length > 0) {
+        formattedData += '## Commits by Issue\n\n';
+        for (const issue of issues) {
+            formattedData += `- ${formatIssueLabel(issue.key, issue.issue)}: ${issue.commits.map(commit => commit.hash).join(', ')}\n`;
+        }
+        formattedData += '\n';
+    }
+    
     return formattedData;
 }
 
 /**
- * Create the work report prompt for OpenAI
+ * Format the files a commit touched as an indented prompt line
  */
-function createWorkReportPrompt(commitData: string): string {
+function formatFileChangesForPrompt(commit: CommitInfo): string {
+    const fileChanges = commit.fileChanges || [];
+    if (fileChanges.length === 0) {
+        return '';
+    }
+    
+    const listed = fileChanges.slice(0, MAX_PROMPT_FILES_PER_COMMIT)
+        .map(change => change.binary ? `${change.path} (binary)` : `${change.path} (+${change.insertions} -${change.deletions})`)
+        .join(', ');
+    const more = fileChanges.length > MAX_PROMPT_FILES_PER_COMMIT
+        ? `, and ${fileChanges.length - MAX_PROMPT_FILES_PER_COMMIT} more`
+        : '';
+    return `  Files: ${listed}${more}\n`;
+}
+
+/**
+ * Format standup data (recent commits and uncommitted changes) for the AI prompt
+ */
+export function formatStandupDataForPrompt(standup: StandupData): string {
+    const dateFormat = vscode.workspace.getConfiguration('reportPilot').get('dateFormat', 'YYYY-MM-DD');
+    
+    const formatCommits = (commits: CommitInfo[]) => commits.length === 0
+        ? '- (no commits)\n'
+        : [...commits].reverse().map(commit => {
+            const repository = commit.repository ? `[${commit.repository}] ` : '';
+            return `- ${repository}"${commit.message}" at ${dayjs(commit.date).format('HH:mm')} (${commit.hash})\n${formatFileChangesForPrompt(commit)}`;
+        }).join('');
+    
+    let formattedData = `## Previous working day (since ${dayjs(standup.previousWorkday).format(dateFormat)})\n\n`;
+    formattedData += formatCommits(standup.yesterday);
+    formattedData += '\n## Today so far\n\n';
+    formattedData += formatCommits(standup.today);
+    formattedData += '\n## Uncommitted changes\n\n';
+    
+    if (standup.workingTree.length === 0) {
+        formattedData += '- (none)\n';
+    }
+    for (const status of standup.workingTree) {
+        const files = status.changes.slice(0, MAX_PROMPT_FILES_PER_COMMIT)
+            .map(change => `${change.status} ${change.path}`)
+            .join(', ');
+        const more = status.changes.length > MAX_PROMPT_FILES_PER_COMMIT
+            ? `, and ${status.changes.length - MAX_PROMPT_FILES_PER_COMMIT} more`
+            : '';
+        formattedData += `- [${status.repository}]${status.branch ? ` on branch ${status.branch}` : ''}: ${files}${more}\n`;
+    }
+    
+    return formattedData;
+}
+
+/**
+ * Create the daily standup prompt for the AI provider
+ */
+export function createStandupPrompt(standupData: string): string {
+    return `Please write my daily standup update from the following git activity.
+
+Use exactly these three Markdown sections, with short bullet points written in the first person:
+## Yesterday
+What I finished on the previous working day, based on its commits.
+## Today
+What I am working on today, based on today's commits and the uncommitted changes (work in progress).
+## Blockers
+Anything that looks blocked or stuck (e.g. reverts, workarounds, "waiting on" messages). Write "- None" if nothing suggests a blocker; do not invent any.
+
+Keep the whole update under 150 words. Group related commits into a single bullet and leave out commit hashes.
+
+Here is the activity:
+
+${standupData}`;
+}
+
+/**
+ * Get the distinct repository names of a set of commits
+ */
+function getRepositoryNames(commits: CommitInfo[]): string[] {
+    const names: string[] = [];
+    for (const commit of commits) {
+        if (commit.repository && !names.includes(commit.repository)) {
+            names.push(commit.repository);
+        }
+    }
+    return names;
+}
+
+/**
+ * Create the work report prompt for the AI provider.
+ * When the commits span several repositories the report gets a section per repository,
+ * and when they mention issue keys it gets a section per issue.
+ */
+export function createWorkReportPrompt(commitData: string, repositories: string[] = [], template?: ReportTemplate, issues: string[] = []): string {
+    if (template) {
+        return createTemplateReportPrompt(commitData, template);
+    }
+    
+    const extraSections: string[] = [];
+    if (repositories.length > 1) {
+        extraSections.push(`A section for each repository (${repositories.join(', ')}) describing the work done in it; commits are tagged with their repository in square brackets`);
+    }
+    if (issues.length > 0) {
+        extraSections.push(`A section for each issue (${issues.join(', ')}) describing the work done for it, headed by the issue key; "Commits by Issue" lists the commits of each issue`);
+    }
+    const extraSectionList = extraSections.map((section, index) => `${index + 5}. ${section}\n`).join('');
+    
     return `Please create a professional work report based on the following git commits.
     
 The report should include:
 1. An executive summary highlighting key accomplishments
 2. A breakdown of work by category (features, bug fixes, documentation, etc.)
 3. A section identifying themes and patterns in the work
-4. Metrics and statistics about the work (number of commits, etc.)
-
+4. Metrics and statistics about the work (number of commits, files and lines changed, etc.)
+${extraSectionList}
 Format the report in Markdown.
 
 Here are the commits:
@@ -164,4 +282,21 @@ Here are the commits:
 ${commitData}
 
 Please organize the report in a professional manner, with clear headings and sections. Try to identify patterns and themes in the commit messages to create a cohesive narrative about the work completed during this period.`;
-}
\ No newline at end of file
+}
+
+/**
+ * Create a work report prompt that asks for a user-defined template's layout
+ */
+function createTemplateReportPrompt(commitData: string, template: ReportTemplate): string {
+    return `Please create a work report based on the following git commits, using the report template below.
+
+Follow the template's headings, order and wording exactly. It uses {{placeholders}}, {{#each list}}...{{/each}} loops and {{#if name}}...{{/if}} conditions to show where data belongs; replace them with content written from the commits, and do not include the template syntax in the report.
+
+Template:
+
+${template.content}
+
+Here are the commits:
+
+${commitData}`;
+}
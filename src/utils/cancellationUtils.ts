@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+
+/**
+ * An AbortSignal that follows a cancellation token.
+ * Dispose it when the operation ends so the token does not keep a listener per operation.
+ */
+export interface TokenAbortSignal extends vscode.Disposable {
+    signal: AbortSignal;
+}
+
+/**
+ * Bridge a VS Code cancellation token to an AbortSignal for APIs that expect one
+ */
+export function toAbortSignal(token?: vscode.CancellationToken): TokenAbortSignal | undefined {
+    if (!token) {
+        return undefined;
+    }
+
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+        return { signal: controller.signal, dispose: () => undefined };
+    }
+
+    const listener = token.onCancellationRequested(() => {
+        listener.dispose();
+        controller.abort();
+    });
+    return { signal: controller.signal, dispose: () => listener.dispose() };
+}
@@ -0,0 +1,184 @@
+import { CommitInfo, categorizeCommitsByType } from './gitUtils';
+
+/**
+ * Criteria for narrowing the commit list. Every kind of criterion that is given must match;
+ * several values of the same kind (e.g. two authors) match when any one of them does.
+ */
+export interface CommitFilter {
+    query: string; // The filter as typed by the user
+    words: string[]; // Text that must appear in the message, hash, author or branch
+    patterns: RegExp[]; // Regular expressions the commit message must match
+    authors: string[];
+    branches: string[];
+    paths: RegExp[]; // Path globs, compiled to regular expressions
+    types: string[]; // Commit types as used by categorizeCommitsByType
+}
+
+// Accepted spellings of the commit types from categorizeCommitsByType
+const COMMIT_TYPE_ALIASES: Record<string, string> = {
+    feat: 'feature', feature: 'feature', features: 'feature',
+    fix: 'fix', fixes: 'fix', bug: 'fix', bugfix: 'fix',
+    doc: 'docs', docs: 'docs',
+    refactor: 'refactor', refactoring: 'refactor',
+    test: 'test', tests: 'test',
+    chore: 'chore', chores: 'chore',
+    other: 'other'
+};
+
+// A `key:value` or `key:"quoted value"` criterion, a /regex/ or a plain word
+const FILTER_TOKEN = /(?:([a-z]+):)?(?:"([^"]*)"|(\/(?:\\.|[^\\/])+\/[gimsuy]*)|(\S+))/gi;
+
+/**
+ * Parse a filter typed in the Commits view, e.g. `login author:alice path:src/** type:fix /^feat/`
+ * @throws an error describing the problem if a regular expression or commit type is invalid
+ * @returns undefined for an empty filter
+ */
+export function parseCommitFilter(query: string): CommitFilter | undefined {
+    const filter: CommitFilter = { query: query.trim(), words: [], patterns: [], authors: [], branches: [], paths: [], types: [] };
+    if (!filter.query) {
+        return undefined;
+    }
+
+    let match: RegExpExecArray | null;
+    FILTER_TOKEN.lastIndex = 0;
+    while ((match = FILTER_TOKEN.exec(filter.query)) !== null) {
+        const key = (match[1] || '').toLowerCase();
+        const regex = match[3];
+        const value = match[2] !== undefined ? match[2] : (regex || match[4] || '');
+
+        if (regex && (!key || key === 'message')) {
+            filter.patterns.push(parseRegExp(regex));
+            continue;
+        }
+
+        switch (key) {
+            case 'author':
+                filter.authors.push(value.toLowerCase());
+                break;
+            case 'branch':
+                filter.branches.push(value.toLowerCase());
+                break;
+            case 'path':
+            case 'file':
+                filter.paths.push(globToRegExp(value));
+                break;
+            case 'type': {
+                const type = COMMIT_TYPE_ALIASES[value.toLowerCase()];
+                if (!type) {
+                    throw new Error(`Unknown commit type "${value}". Use one of: feat, fix, docs, refactor, test, chore, other`);
+                }
+                filter.types.push(type);
+                break;
+            }
+            default:
+                // Not a known criterion, so search for it as text, colon included
+                filter.words.push(match[0].replace(/"/g, '').toLowerCase());
+        }
+    }
+
+    return filter;
+}
+
+/**
+ * Check whether a commit matches a filter
+ */
+export function matchesCommitFilter(commit: CommitInfo, filter: CommitFilter): boolean {
+    const searchText = [commit.message, commit.hash, commit.author, commit.authorEmail, commit.branch]
+        .filter(Boolean)
+        .join('\n')
+        .toLowerCase();
+    if (!filter.words.every(word => searchText.includes(word))) {
+        return false;
+    }
+
+    if (!filter.patterns.every(pattern => pattern.test(commit.message))) {
+        return false;
+    }
+
+    const author = `${commit.author}\n${commit.authorEmail || ''}`.toLowerCase();
+    if (filter.authors.length > 0 && !filter.authors.some(name => author.includes(name))) {
+        return false;
+    }
+
+    const branch = (commit.branch || '').toLowerCase();
+    if (filter.branches.length > 0 && !filter.branches.some(name => branch.includes(name))) {
+        return false;
+    }
+
+    const files = (commit.fileChanges || []).map(change => change.path);
+    if (filter.paths.length > 0 && !filter.paths.some(glob => files.some(file => glob.test(file)))) {
+        return false;
+    }
+
+    if (filter.types.length > 0) {
+        const categories = categorizeCommitsByType([commit]);
+        if (!filter.types.some(type => (categories[type] || []).length > 0)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Compile a /pattern/flags token
+ */
+function parseRegExp(token: string): RegExp {
+    const end = token.lastIndexOf('/');
+    const source = token.slice(1, end);
+    // g and y make test() continue from the last match, so one commit's result would depend on the previous one
+    const flags = token.slice(end + 1).replace(/[gy]/g, '');
+    try {
+        // Searches are case-insensitive unless flags are given
+        return new RegExp(source, flags || 'i');
+    } catch (error) {
+        throw new Error(`Invalid regular expression ${token}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Compile a path glob. `*` and `?` stay within one path segment, `**` spans segments and
+ * `{a,b}` matches either alternative. Like .gitignore, a glob without a slash matches at any depth
+ * and a glob that matches a directory matches everything below it.
+ */
+function globToRegExp(glob: string): RegExp {
+    let pattern = glob.replace(/\\/g, '/').replace(/^\.?\//, '').replace(/\/+$/, '');
+    if (!pattern.includes('/')) {
+        pattern = `**/${pattern}`;
+    }
+
+    let source = '';
+    let openBraces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" also matches no directories at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            openBraces++;
+        } else if (char === '}' && openBraces > 0) {
+            source += ')';
+            openBraces--;
+        } else if (char === ',' && openBraces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+        }
+    }
+    if (openBraces > 0) {
+        throw new Error(`Invalid path pattern "${glob}": a "{" is never closed`);
+    }
+
+    return new RegExp(`^${source}(?:/.*)?$`, 'i');
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import dayjs from 'dayjs';
+import { CommitInfo } from './gitUtils';
+import { escapeHtml, markdownToHtml, markdownToPlainText, splitMarkdownSections } from './markdownUtils';
+import { getIssueTrackers } from './issueUtils';
+
+/**
+ * A generated report together with the data it was written from
+ */
+export interface ExportableReport {
+    title: string;
+    markdown: string;
+    generatedAt: Date;
+    period?: string; // Time span the report covers, e.g. "This Week"
+    generator?: string; // Label of the AI provider or local generator that wrote the report
+    template?: string; // Name of the report template, if one was used
+    commits: CommitInfo[];
+}
+
+/**
+ * File formats a report can be exported to
+ */
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'csv' | 'text';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string; extension: string }[] = [
+    { format: 'markdown', label: 'Markdown', description: 'The report as written', extension: 'md' },
+    { format: 'html', label: 'HTML', description: 'Standalone styled page for sharing or printing', extension: 'html' },
+    { format: 'json', label: 'JSON', description: 'Metadata, commits and report sections', extension: 'json' },
+    { format: 'csv', label: 'CSV', description: 'One row per commit, for spreadsheets', extension: 'csv' },
+    { format: 'text', label: 'Plain Text', description: 'The report without Markdown syntax', extension: 'txt' }
+];
+
+/**
+ * Ask for a format and a file name, then write the report to disk
+ * @returns the URI of the written file, or undefined if the user cancelled
+ */
+export async function exportReport(report: ExportableReport): Promise<vscode.Uri | undefined> {
+    const selection = await vscode.window.showQuickPick(EXPORT_FORMATS, {
+        placeHolder: 'Select the export format'
+    });
+    if (!selection) {
+        return undefined;
+    }
+
+    const fileName = `${report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${dayjs(report.generatedAt).format('YYYY-MM-DD')}.${selection.extension}`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(getExportFolder(), fileName)),
+        filters: { [selection.label]: [selection.extension] },
+        saveLabel: 'Export Report'
+    });
+    if (!target) {
+        return undefined;
+    }
+
+    const content = formatReport(report, selection.format);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    return target;
+}
+
+/**
+ * Render a report in an export format
+ */
+export function formatReport(report: ExportableReport, format: ExportFormat): string {
+    switch (format) {
+        case 'markdown':
+            return report.markdown;
+        case 'html':
+            return formatReportAsHtml(report);
+        case 'json':
+            return JSON.stringify(formatReportAsJson(report), null, 2);
+        case 'csv':
+            return formatCommitsAsCsv(report.commits);
+        case 'text':
+            return markdownToPlainText(report.markdown);
+        default:
+            throw new Error(`Unknown export format: ${format}`);
+    }
+}
+
+/**
+ * Folder the save dialog starts in: the `reportPilot.exportFolder` setting,
+ * otherwise the first workspace folder or the home directory
+ */
+function getExportFolder(): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const configured = vscode.workspace.getConfiguration('reportPilot').get<string>('exportFolder', '').trim();
+
+    if (!configured) {
+        return workspaceFolder || os.homedir();
+    }
+
+    const folder = configured
+        .replace(/^~(?=$|[\\/])/, os.homedir())
+        .replace(/\$\{workspaceFolder\}/g, workspaceFolder || '');
+    return path.isAbsolute(folder) ? folder : path.join(workspaceFolder || os.homedir(), folder);
+}
+
+/**
+ * Wrap the report in a standalone HTML page with its own styles
+ */
+function formatReportAsHtml(report: ExportableReport): string {
+    const generatedAt = dayjs(report.generatedAt).format('YYYY-MM-DD HH:mm');
+    const details = [
+        report.period,
+        [`Generated on ${generatedAt}`, report.generator && `by ${report.generator}`].filter(Boolean).join(' ')
+    ].filter(Boolean).join(' · ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(report.title)} - ${generatedAt}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+            line-height: 1.6;
+            max-width: 800px;
+            margin: 40px auto;
+            padding: 0 20px;
+            color: #24292f;
+            background: #ffffff;
+        }
+        h1, h2, h3 {
+            line-height: 1.25;
+        }
+        h1 {
+            border-bottom: 1px solid #d0d7de;
+            padding-bottom: 8px;
+        }
+        h2 {
+            margin-top: 24px;
+        }
+        ul {
+            padding-left: 24px;
+        }
+        code {
+            font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+            background: #f6f8fa;
+            padding: 2px 4px;
+            border-radius: 4px;
+        }
+        .report-meta {
+            color: #57606a;
+            font-size: 0.9em;
+            margin-bottom: 24px;
+        }
+        @media (prefers-color-scheme: dark) {
+            body { color: #c9d1d9; background: #0d1117; }
+            h1 { border-color: #30363d; }
+            code { background: #161b22; }
+            .report-meta { color: #8b949e; }
+        }
+        @media print {
+            body { margin: 0; max-width: none; }
+        }
+    </style>
+</head>
+<body>
+    <div class="report-meta">${escapeHtml(details)}</div>
+    <div class="report-content">${markdownToHtml(report.markdown, getIssueTrackers())}</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Structured form of a report: metadata, the commits it covers and its sections
+ */
+function formatReportAsJson(report: ExportableReport): object {
+    const dates = report.commits.map(commit => commit.date.getTime());
+
+    return {
+        metadata: {
+            title: report.title,
+            generatedAt: report.generatedAt.toISOString(),
+            generator: report.generator,
+            template: report.template,
+            timeSpan: report.period,
+            period: dates.length > 0 ? {
+                from: new Date(Math.min(...dates)).toISOString(),
+                to: new Date(Math.max(...dates)).toISOString()
+            } : undefined,
+            totals: {
+                commits: report.commits.length,
+                insertions: report.commits.reduce((total, commit) => total + (commit.insertions || 0), 0),
+                deletions: report.commits.reduce((total, commit) => total + (commit.deletions || 0), 0)
+            }
+        },
+        commits: report.commits.map(commit => ({
+            hash: commit.hash,
+            date: commit.date.toISOString(),
+            author: commit.author,
+            authorEmail: commit.authorEmail,
+            message: commit.message,
+            branch: commit.branch,
+            pullRequest: commit.pullRequest,
+            issueKeys: commit.issueKeys,
+            repository: commit.repository,
+            insertions: commit.insertions,
+            deletions: commit.deletions,
+            files: commit.fileChanges
+        })),
+        sections: splitMarkdownSections(report.markdown),
+        markdown: report.markdown
+    };
+}
+
+/**
+ * One CSV row per commit
+ */
+function formatCommitsAsCsv(commits: CommitInfo[]): string {
+    const header = ['Hash', 'Date', 'Author', 'Email', 'Repository', 'Branch', 'Message', 'Files Changed', 'Insertions', 'Deletions'];
+    const rows = commits.map(commit => [
+        commit.hash,
+        dayjs(commit.date).format('YYYY-MM-DD HH:mm:ss'),
+        commit.author,
+        commit.authorEmail || '',
+        commit.repository || '',
+        commit.branch || '',
+        commit.message,
+        String((commit.fileChanges || []).length),
+        String(commit.insertions || 0),
+        String(commit.deletions || 0)
+    ]);
+
+    return [header, ...rows]
+        .map(row => row.map(escapeCsvField).join(','))
+        .join('\r\n') + '\r\n';
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function escapeCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
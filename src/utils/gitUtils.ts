@@ -1,16 +1,49 @@
 import * as vscode from 'vscode';
-import simpleGit, { SimpleGit, LogResult } from 'simple-git';
+import simpleGit, { SimpleGit, LogResult, DefaultLogFields, ListLogLine } from 'simple-git';
 import dayjs from 'dayjs'; // Fixed import statement
 import * as fs from 'fs';
 import * as path from 'path';
+import { toAbortSignal } from './cancellationUtils';
+import { IssueMetadata, extractIssueKeys, formatIssueLabel, getIssueUrl, groupCommitsByIssue } from './issueUtils';
 
 export interface CommitInfo {
     hash: string;
     date: Date;
     message: string;
     author: string;
+    authorEmail?: string;
     branch?: string; // Add branch information
+    pullRequest?: PullRequestInfo; // Pull request the commit was merged through
+    issueKeys?: string[]; // Issue tracker keys mentioned in the message, e.g. PROJ-123 or #456
+    issues?: IssueMetadata[]; // Title and status of those issues, where the issue metadata source knows them
+    repository?: string; // Display name of the repository the commit belongs to
+    repositoryPath?: string; // Root folder of that repository
     files?: string[];
+    fileChanges?: FileChange[];
+    insertions?: number;
+    deletions?: number;
+}
+
+/**
+ * Lines changed in a single file of a commit
+ */
+export interface FileChange {
+    path: string;
+    insertions: number;
+    deletions: number;
+    binary: boolean;
+    status?: string; // A, M, D, R, C or T as reported by --name-status
+    oldPath?: string; // Original path of a renamed or copied file
+}
+
+/**
+ * A pull request (or merge request) recognised from the merge commit or squash-merged commit it left behind
+ */
+export interface PullRequestInfo {
+    number: number;
+    title: string;
+    squashed: boolean; // Squash-merged into a single commit on the mainline
+    mergeCommit: string; // Hash of the merge commit, or of the squashed commit
 }
 
 export interface DateRange {
@@ -19,12 +52,90 @@ export interface DateRange {
 }
 
 /**
- * Checks if a directory is a Git repository by looking for a .git folder
+ * Time periods commits can be listed and reported for
+ */
+export type TimeSpan =
+    | 'today' | 'yesterday'
+    | 'thisWeek' | 'lastWeek'
+    | 'thisMonth' | 'lastMonth'
+    | 'thisQuarter' | 'lastQuarter'
+    | 'lastNDays'
+    | 'thisSprint' | 'lastSprint'
+    | 'custom';
+
+/**
+ * Settings that decide where weeks and sprints begin
+ */
+export interface DateRangeOptions {
+    weekStartDay?: number; // 0 for Sunday, 1 for Monday, etc.
+    days?: number; // Number of days covered by 'lastNDays', including today
+    sprintStartDate?: string; // Start date of any sprint, as YYYY-MM-DD
+    sprintLengthWeeks?: number;
+}
+
+/**
+ * Settings for estimating work time from commit timestamps
+ */
+export interface TimeEstimateOptions {
+    sessionGapMinutes: number; // Commits further apart than this start a new work session
+    firstCommitMinutes: number; // Time spent before the first commit of a session
+}
+
+/**
+ * Commits by one author close enough together to count as one stretch of work
+ */
+export interface WorkSession {
+    author: string;
+    start: Date; // Time of the first commit, not counting the lead time
+    end: Date;
+    commits: CommitInfo[];
+    minutes: number;
+}
+
+/**
+ * Estimated work time, in minutes, in total and broken down by day, branch and issue
+ */
+export interface TimeEstimate {
+    totalMinutes: number;
+    sessions: WorkSession[];
+    byDay: Map<string, number>;
+    byBranch: Map<string, number>;
+    byIssue: Map<string, number>; // Time of a commit that mentions several issues is split between them
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Uncommitted changes in one repository
+ */
+export interface WorkingTreeStatus {
+    repository: string;
+    repositoryPath: string;
+    branch?: string;
+    changes: { path: string; status: string }[]; // Status as in `git status --short`, e.g. "M", "A" or "??"
+}
+
+/**
+ * Everything a daily standup update is written from
+ */
+export interface StandupData {
+    previousWorkday: Date;
+    yesterday: CommitInfo[]; // Commits since the start of the previous working day, up to today
+    today: CommitInfo[];
+    workingTree: WorkingTreeStatus[]; // Repositories with uncommitted changes
+}
+
+// Folders that are never searched for nested repositories
+const IGNORED_SCAN_FOLDERS = new Set(['node_modules', 'bower_components', 'vendor', 'out', 'dist', 'build']);
+
+/**
+ * Checks if a directory is a Git repository by looking for a .git entry.
+ * Worktrees and submodules use a .git file instead of a folder.
  */
 export function isGitRepository(directoryPath: string): boolean {
     try {
         const gitDir = path.join(directoryPath, '.git');
-        return fs.existsSync(gitDir) && fs.statSync(gitDir).isDirectory();
+        return fs.existsSync(gitDir) && (fs.statSync(gitDir).isDirectory() || fs.statSync(gitDir).isFile());
     } catch (error) {
         console.error('Error checking if path is a Git repository:', error);
         return false;
@@ -32,9 +143,10 @@ export function isGitRepository(directoryPath: string): boolean {
 }
 
 /**
- * Gets a Git instance for the current workspace
+ * Gets a Git instance for the current workspace.
+ * Pending git commands are aborted when the optional signal is.
  */
-export function getGit(workspacePath?: string): SimpleGit | null {
+export function getGit(workspacePath?: string, signal?: AbortSignal): SimpleGit | null {
     try {
         const path = workspacePath || getWorkspacePath();
         if (!path) {
@@ -48,7 +160,7 @@ export function getGit(workspacePath?: string): SimpleGit | null {
             return null;
         }
         
-        return simpleGit(path);
+        return signal ? simpleGit({ baseDir: path, abort: signal }) : simpleGit(path);
     } catch (error) {
         vscode.window.showErrorMessage(`Failed to initialize Git: ${error}`);
         return null;
@@ -66,14 +178,179 @@ export function getWorkspacePath(): string | undefined {
 }
 
 /**
- * Get commits within a date range
+ * Gets the root folders of all Git repositories in the workspace.
+ * Every workspace folder is checked, along with repositories nested inside it
+ * up to `reportPilot.repositoryScanDepth` folders deep.
+ */
+export function getRepositoryPaths(): string[] {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const maxDepth = vscode.workspace.getConfiguration('reportPilot').get<number>('repositoryScanDepth', 2);
+    
+    const repositories: string[] = [];
+    for (const folder of folders) {
+        findRepositories(folder.uri.fsPath, maxDepth, repositories);
+    }
+    
+    // Overlapping workspace folders can lead to the same repository twice
+    return repositories.filter((repository, index) => repositories.indexOf(repository) === index);
+}
+
+/**
+ * Collect the repositories in a directory and its subdirectories
+ */
+function findRepositories(directoryPath: string, depth: number, repositories: string[]): void {
+    if (isGitRepository(directoryPath)) {
+        repositories.push(directoryPath);
+    }
+    
+    if (depth <= 0) {
+        return;
+    }
+    
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(directoryPath, { withFileTypes: true });
+    } catch (error) {
+        console.warn(`[Report Pilot] Could not scan ${directoryPath} for repositories:`, error);
+        return;
+    }
+    
+    for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_SCAN_FOLDERS.has(entry.name)) {
+            findRepositories(path.join(directoryPath, entry.name), depth - 1, repositories);
+        }
+    }
+}
+
+/**
+ * Get a display name for a repository: the workspace folder name,
+ * followed by the relative path for repositories nested inside it
+ */
+export function getRepositoryName(repositoryPath: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(repositoryPath));
+    if (!folder) {
+        return path.basename(repositoryPath);
+    }
+    
+    const relativePath = path.relative(folder.uri.fsPath, repositoryPath);
+    return relativePath ? `${folder.name}/${relativePath.split(path.sep).join('/')}` : folder.name;
+}
+
+/**
+ * Group commits by the repository they belong to, keyed by repository path
+ */
+export function groupCommitsByRepository(commits: CommitInfo[]): Map<string, CommitInfo[]> {
+    const commitsByRepository = new Map<string, CommitInfo[]>();
+    
+    for (const commit of commits) {
+        const key = commit.repositoryPath || '';
+        if (!commitsByRepository.has(key)) {
+            commitsByRepository.set(key, []);
+        }
+        commitsByRepository.get(key)?.push(commit);
+    }
+    
+    return commitsByRepository;
+}
+
+/**
+ * Group commits by the pull request they were merged through, oldest pull request first.
+ * Commits that were not merged through a pull request are left out.
+ */
+export function groupCommitsByPullRequest(commits: CommitInfo[]): { pullRequest: PullRequestInfo; commits: CommitInfo[] }[] {
+    const groups = new Map<string, { pullRequest: PullRequestInfo; commits: CommitInfo[] }>();
+    
+    for (const commit of commits) {
+        if (!commit.pullRequest) {
+            continue;
+        }
+        // Pull request numbers are only unique within a repository
+        const key = `${commit.repositoryPath || ''}#${commit.pullRequest.number}`;
+        if (!groups.has(key)) {
+            groups.set(key, { pullRequest: commit.pullRequest, commits: [] });
+        }
+        groups.get(key)?.commits.push(commit);
+    }
+    
+    return Array.from(groups.values()).sort((a, b) => a.pullRequest.number - b.pullRequest.number);
+}
+
+/**
+ * Map a `git log --numstat` entry to our CommitInfo format,
+ * tagged with the repository it was read from
+ */
+export function toCommitInfo(commit: DefaultLogFields & ListLogLine, repositoryPath?: string): CommitInfo {
+    const fileChanges = getFileChanges(commit);
+    
+    return {
+        hash: commit.hash,
+        repository: repositoryPath ? getRepositoryName(repositoryPath) : undefined,
+        repositoryPath,
+        message: commit.message || '[No message]',
+        author: commit.author_name || 'Unknown',
+        authorEmail: commit.author_email || undefined,
+        date: new Date(commit.date),
+        issueKeys: extractIssueKeys(`${commit.message || ''}\n${commit.body || ''}`),
+        files: fileChanges.map(change => change.path),
+        fileChanges,
+        insertions: fileChanges.reduce((total, change) => total + change.insertions, 0),
+        deletions: fileChanges.reduce((total, change) => total + change.deletions, 0)
+    };
+}
+
+/**
+ * Extract per-file line counts from a log entry's diff summary
+ */
+function getFileChanges(commit: ListLogLine): FileChange[] {
+    if (!commit.diff) {
+        return [];
+    }
+    
+    return commit.diff.files.map(file => file.binary
+        ? { path: file.file, insertions: 0, deletions: 0, binary: true }
+        : { path: file.file, insertions: file.insertions, deletions: file.deletions, binary: false }
+    );
+}
+
+/**
+ * Get commits within a date range from every repository in the workspace, newest first.
+ * When several authors are given, commits by any of them are returned.
  */
 export async function getCommitsByDateRange(
     dateRange: DateRange,
-    author?: string
+    author?: string | string[],
+    token?: vscode.CancellationToken
+): Promise<CommitInfo[]> {
+    const repositories = getRepositoryPaths();
+    if (repositories.length === 0) {
+        vscode.window.showInformationMessage('No Git repository found in the workspace.');
+        return [];
+    }
+    
+    const authors = getAuthorList(author);
+    const commits: CommitInfo[] = [];
+    for (const repositoryPath of repositories) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        commits.push(...await getRepositoryCommitsByDateRange(repositoryPath, dateRange, authors, token));
+    }
+    
+    return commits.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Get commits within a date range from a single repository
+ */
+async function getRepositoryCommitsByDateRange(
+    repositoryPath: string,
+    dateRange: DateRange,
+    authors: string[],
+    token?: vscode.CancellationToken
 ): Promise<CommitInfo[]> {
+    const abort = toAbortSignal(token);
     try {
-        const git = getGit();
+        const git = getGit(repositoryPath, abort?.signal);
         if (!git) {
             vscode.window.showInformationMessage('Could not initialize Git. Please check if this is a valid Git repository.');
             return [];
@@ -83,8 +360,6 @@ export async function getCommitsByDateRange(
         const fromDate = dayjs(dateRange.from).format('YYYY-MM-DD');
         const toDate = dayjs(dateRange.to).format('YYYY-MM-DD');
         
-        console.log(`[Report Pilot] Fetching commits from ${fromDate} to ${toDate}`);
-        
         // Build git options using a different approach that is more compatible with git
         const options: string[] = [];
         
@@ -105,10 +380,11 @@ export async function getCommitsByDateRange(
         // Add date format for consistency
         options.push('--date=iso');
         
+        // Include per-file line counts
+        options.push('--numstat');
+        
         // Add author filter if specified
-        if (author) {
-            options.push(`--author="${author}"`);
-        }
+        options.push(...getAuthorOptions(authors));
         
         console.log(`[Report Pilot] Running git log with options: ${options.join(' ')}`);
         
@@ -129,29 +405,25 @@ export async function getCommitsByDateRange(
                     const broaderOptions = [
                         '--all',
                         '-n', '100', // Limit to recent commits
-                        '--date=iso'
+                        '--date=iso',
+                        '--numstat'
                     ];
                     
                     const broaderResult = await git.log(broaderOptions);
                     
                     if (broaderResult?.all?.length) {
                         // Map the commit data to our CommitInfo format
-                        const allCommits = broaderResult.all.map(commit => ({
-                            hash: commit.hash,
-                            message: commit.message || '[No message]',
-                            author: commit.author_name || 'Unknown',
-                            date: new Date(commit.date),
-                            files: []
-                        }));
+                        const allCommits = broaderResult.all.map(commit => toCommitInfo(commit, repositoryPath));
                         
-                        // Filter commits by date client-side
+                        // Filter commits by date (and author) client-side
                         const filteredCommits = allCommits.filter(commit => {
                             const commitDay = dayjs(commit.date).startOf('day');
                             const fromDay = dayjs(dateRange.from).startOf('day');
                             const toDay = dayjs(dateRange.to).startOf('day');
                             
                             return (commitDay.isSame(fromDay) || commitDay.isSame(toDay) || 
-                                    (commitDay.isAfter(fromDay) && commitDay.isBefore(toDay)));
+                                    (commitDay.isAfter(fromDay) && commitDay.isBefore(toDay))) &&
+                                   isCommitByAuthor(commit, authors);
                         });
                         
                         console.log(`[Report Pilot] Found ${filteredCommits.length} commits after client-side filtering`);
@@ -169,13 +441,7 @@ export async function getCommitsByDateRange(
             }
             
             // Map the commit data to our CommitInfo format
-            const commits = result.all.map(commit => ({
-                hash: commit.hash,
-                message: commit.message || '[No message]',
-                author: commit.author_name || 'Unknown',
-                date: new Date(commit.date),
-                files: []
-            }));
+            const commits = result.all.map(commit => toCommitInfo(commit, repositoryPath));
             
             // Debug the first few commits to check message content
             commits.slice(0, 3).forEach((commit, i) => {
@@ -189,47 +455,268 @@ export async function getCommitsByDateRange(
         }
     } catch (error) {
         console.error('[Report Pilot] Error in getCommitsByDateRange:', error);
-        vscode.window.showErrorMessage(`Failed to get commits: ${error}`);
+        vscode.window.showErrorMessage(`Failed to get commits from ${getRepositoryName(repositoryPath)}: ${error}`);
         return [];
+    } finally {
+        abort?.dispose();
     }
 }
 
 /**
- * Get all recent commits regardless of date
- * This function is used for the "All Recent Commits" option
+ * Normalize an author filter argument to a list of names or emails
+ */
+function getAuthorList(author?: string | string[]): string[] {
+    const authors = Array.isArray(author) ? author : author ? [author] : [];
+    return authors.map(a => a.trim()).filter(a => a.length > 0);
+}
+
+/**
+ * Build `git log` options matching commits by any of the given authors.
+ * Names and emails are matched as fixed strings rather than patterns.
+ */
+export function getAuthorOptions(authors: string[]): string[] {
+    if (authors.length === 0) {
+        return [];
+    }
+    return ['--fixed-strings', ...authors.map(author => `--author=${author}`)];
+}
+
+/**
+ * Check whether a commit was written by one of the given authors (by name or email).
+ * An empty list matches every commit.
+ */
+export function isCommitByAuthor(commit: CommitInfo, authors: string[]): boolean {
+    if (authors.length === 0) {
+        return true;
+    }
+    
+    const name = commit.author.toLowerCase();
+    const email = (commit.authorEmail || '').toLowerCase();
+    return authors.some(author => {
+        const candidate = author.toLowerCase();
+        return name.includes(candidate) || email.includes(candidate);
+    });
+}
+
+/**
+ * Get the user.name and user.email configured for a repository
  */
-export async function getAllRecentCommits(limit: number = 50): Promise<CommitInfo[]> {
+export async function getCurrentGitIdentity(repositoryPath?: string): Promise<{ name?: string; email?: string }> {
+    const git = getGit(repositoryPath);
+    if (!git) {
+        return {};
+    }
+    
     try {
-        const git = getGit();
-        if (!git) {
-            vscode.window.showInformationMessage('Could not initialize Git. Please check if this is a valid Git repository.');
-            return [];
-        }
+        const [name, email] = await Promise.all([
+            git.getConfig('user.name'),
+            git.getConfig('user.email')
+        ]);
+        return {
+            name: name.value || undefined,
+            email: email.value || undefined
+        };
+    } catch (error) {
+        console.error('[Report Pilot] Error reading git identity:', error);
+        return {};
+    }
+}
+
+/**
+ * Resolve the author filter for "Only my commits": the git identity of every
+ * repository in the workspace plus any configured aliases.
+ * Returns undefined when the filter is turned off.
+ */
+export async function getMyAuthorFilter(): Promise<string[] | undefined> {
+    const config = vscode.workspace.getConfiguration('reportPilot');
+    if (!config.get<boolean>('onlyMyCommits', false)) {
+        return undefined;
+    }
+    
+    const identities = await Promise.all(getRepositoryPaths().map(getCurrentGitIdentity));
+    const aliases = config.get<string[]>('authorAliases', []);
+    const authors = getAuthorList(identities.reduce<string[]>(
+        (list, identity) => list.concat(identity.email || '', identity.name || ''),
+        []
+    ).concat(aliases));
+    
+    // Drop duplicates, compared case-insensitively
+    return authors.filter((author, index) =>
+        authors.findIndex(other => other.toLowerCase() === author.toLowerCase()) === index
+    );
+}
 
-        console.log(`[Report Pilot] Fetching all recent commits, limit: ${limit}`);
+/**
+ * Get the files changed by a single commit with their status and line counts.
+ * Paths are read with -z so renames and unusual file names come through intact.
+ * A merge commit is compared with its first parent, so it lists what it brought into the branch.
+ */
+export async function getCommitFileChanges(commitHash: string, repositoryPath?: string): Promise<FileChange[]> {
+    const git = getGit(repositoryPath);
+    if (!git) {
+        return [];
+    }
+    
+    try {
+        const [nameStatus, numstat] = await Promise.all([
+            git.raw(['show', '--format=', '-m', '--first-parent', '-M', '--name-status', '-z', commitHash]),
+            git.raw(['show', '--format=', '-m', '--first-parent', '-M', '--numstat', '-z', commitHash])
+        ]);
+        
+        // Line counts keyed by the (new) path
+        const counts = new Map<string, { insertions: number; deletions: number; binary: boolean }>();
+        const numstatParts = numstat.split('\0');
+        for (let i = 0; i < numstatParts.length; i++) {
+            const match = numstatParts[i].replace(/^\n/, '').match(/^(\d+|-)\t(\d+|-)\t(.*)$/);
+            if (!match) {
+                continue;
+            }
+            
+            // Renames leave the path empty and follow with the old and new paths
+            let filePath = match[3];
+            if (!filePath) {
+                filePath = numstatParts[i + 2];
+                i += 2;
+            }
+            
+            counts.set(filePath, {
+                insertions: match[1] === '-' ? 0 : parseInt(match[1], 10),
+                deletions: match[2] === '-' ? 0 : parseInt(match[2], 10),
+                binary: match[1] === '-'
+            });
+        }
         
-        // Get all commits with a simple limit - use the same format as other functions
-        const options: string[] = [
-            '-n', limit.toString(),
-            '--all', // Include all branches
-            '--date=iso',
-            '--pretty=format:{"hash":"%h","author":"%an <%ae>","date":"%ad","message":"%s"}'
-        ];
+        const changes: FileChange[] = [];
+        const statusParts = nameStatus.split('\0').map(part => part.replace(/^\n/, ''));
+        for (let i = 0; i < statusParts.length; i++) {
+            const status = statusParts[i];
+            if (!/^[ACDMRTUXB]\d*$/.test(status)) {
+                continue;
+            }
+            
+            const isRenameOrCopy = status.startsWith('R') || status.startsWith('C');
+            const oldPath = isRenameOrCopy ? statusParts[i + 1] : undefined;
+            const filePath = isRenameOrCopy ? statusParts[i + 2] : statusParts[i + 1];
+            i += isRenameOrCopy ? 2 : 1;
+            
+            const count = counts.get(filePath) || { insertions: 0, deletions: 0, binary: false };
+            changes.push({
+                path: filePath,
+                oldPath,
+                status: status.charAt(0),
+                ...count
+            });
+        }
+        
+        return changes;
+    } catch (error) {
+        console.error(`[Report Pilot] Error getting file changes for commit ${commitHash}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Get the contents of a file at a given revision, or an empty string if it does not exist there
+ */
+export async function getFileAtRevision(ref: string, filePath: string, repositoryPath?: string): Promise<string> {
+    const git = getGit(repositoryPath);
+    if (!git || !ref) {
+        return '';
+    }
+    
+    try {
+        return await git.show([`${ref}:${filePath}`]);
+    } catch (error) {
+        // Added files have no parent version and deleted files have no commit version
+        return '';
+    }
+}
+
+/**
+ * Get all recent commits regardless of date across every repository in the workspace
+ * This function is used for the "All Recent Commits" option
+ */
+export async function getAllRecentCommits(
+    limit: number = 50,
+    token?: vscode.CancellationToken,
+    author?: string | string[]
+): Promise<CommitInfo[]> {
+    const repositories = getRepositoryPaths();
+    if (repositories.length === 0) {
+        vscode.window.showInformationMessage('No Git repository found in the workspace.');
+        return [];
+    }
+
+    const options: string[] = [
+        '-n', limit.toString(),
+        '--all', // Include all branches
+        '--date=iso',
+        '--numstat',
+        ...getAuthorOptions(getAuthorList(author))
+    ];
+    
+    const commits: CommitInfo[] = [];
+    for (const repositoryPath of repositories) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
         
+        const abort = toAbortSignal(token);
         try {
+            const git = getGit(repositoryPath, abort?.signal);
+            if (!git) {
+                continue;
+            }
+            
             const result = await git.log(options);
-            const commits = parseGitLog(result);
-            console.log(`[Report Pilot] Found ${commits.length} recent commits`);
-            return commits;
+            commits.push(...result.all.map(commit => toCommitInfo(commit, repositoryPath)));
         } catch (error) {
-            console.error('[Report Pilot] Error executing git log:', error);
-            throw error;
+            // A repository without commits has no HEAD to log; the others still count
+            console.error(`[Report Pilot] Error getting recent commits in ${repositoryPath}:`, error);
+        } finally {
+            abort?.dispose();
+        }
+    }
+    
+    // Keep the most recent commits overall
+    return commits.sort((a, b) => b.date.getTime() - a.date.getTime()).slice(0, limit);
+}
+
+/**
+ * Count the commits on each day (YYYY-MM-DD) of a date range, across all repositories
+ */
+export async function getCommitCountsByDay(dateRange: DateRange, author?: string | string[]): Promise<Record<string, number>> {
+    const options = [
+        'log',
+        '--all',
+        `--after=${dayjs(dateRange.from).format('YYYY-MM-DD')} 00:00:00`,
+        `--before=${dayjs(dateRange.to).format('YYYY-MM-DD')} 23:59:59`,
+        '--format=%aI',
+        ...getAuthorOptions(getAuthorList(author))
+    ];
+    
+    const counts: Record<string, number> = {};
+    for (const repositoryPath of getRepositoryPaths()) {
+        try {
+            const git = getGit(repositoryPath);
+            if (!git) {
+                continue;
+            }
+            
+            const output = await git.raw(options);
+            for (const line of output.split('\n')) {
+                if (line.trim()) {
+                    // Count each commit on the local day it was made
+                    const day = dayjs(line.trim()).format('YYYY-MM-DD');
+                    counts[day] = (counts[day] || 0) + 1;
+                }
+            }
+        } catch (error) {
+            console.error(`[Report Pilot] Error counting commits in ${repositoryPath}:`, error);
         }
-    } catch (error) {
-        console.error('[Report Pilot] Error in getAllRecentCommits:', error);
-        vscode.window.showErrorMessage(`Failed to get commits: ${error}`);
-        return [];
     }
+    
+    return counts;
 }
 
 /**
@@ -256,7 +743,7 @@ function isYesterday(date: Date): boolean {
 /**
  * Get commits from today
  */
-export async function getTodaysCommits(author?: string): Promise<CommitInfo[]> {
+export async function getTodaysCommits(author?: string | string[]): Promise<CommitInfo[]> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -266,6 +753,74 @@ export async function getTodaysCommits(author?: string): Promise<CommitInfo[]> {
     }, author);
 }
 
+/**
+ * Get the uncommitted changes of every repository in the workspace.
+ * Repositories without changes are left out.
+ */
+export async function getWorkingTreeStatus(): Promise<WorkingTreeStatus[]> {
+    const statuses: WorkingTreeStatus[] = [];
+    
+    for (const repositoryPath of getRepositoryPaths()) {
+        const git = getGit(repositoryPath);
+        if (!git) {
+            continue;
+        }
+        
+        try {
+            const status = await git.status();
+            if (status.files.length === 0) {
+                continue;
+            }
+            
+            statuses.push({
+                repository: getRepositoryName(repositoryPath),
+                repositoryPath,
+                branch: status.current || undefined,
+                changes: status.files.map(file => ({
+                    path: file.path,
+                    status: `${file.index}${file.working_dir}`.trim() || 'M'
+                }))
+            });
+        } catch (error) {
+            console.error(`[Report Pilot] Error reading working tree status of ${repositoryPath}:`, error);
+        }
+    }
+    
+    return statuses;
+}
+
+/**
+ * Get the start of the previous working day, skipping weekends
+ * so a Monday standup covers Friday's work
+ */
+export function getPreviousWorkday(date: Date = new Date()): Date {
+    let previous = dayjs(date).startOf('day').subtract(1, 'day');
+    while (previous.day() === 0 || previous.day() === 6) {
+        previous = previous.subtract(1, 'day');
+    }
+    return previous.toDate();
+}
+
+/**
+ * Collect the commits and working tree changes for a daily standup
+ */
+export async function getStandupData(author?: string | string[], token?: vscode.CancellationToken): Promise<StandupData> {
+    const startOfToday = dayjs().startOf('day');
+    const previousWorkday = getPreviousWorkday();
+    
+    const commits = await getCommitsByDateRange({
+        from: previousWorkday,
+        to: new Date()
+    }, author, token);
+    
+    return {
+        previousWorkday,
+        yesterday: commits.filter(commit => dayjs(commit.date).isBefore(startOfToday)),
+        today: commits.filter(commit => !dayjs(commit.date).isBefore(startOfToday)),
+        workingTree: token?.isCancellationRequested ? [] : await getWorkingTreeStatus()
+    };
+}
+
 /**
  * Parse git log output into structured commit information
  */
@@ -307,11 +862,11 @@ export function parseGitLog(logResult: LogResult): CommitInfo[] {
                         const jsonData = JSON.parse(commit.body);
                         
                         commits.push({
+                            ...toCommitInfo(commit),
                             hash: jsonData.hash || commit.hash,
                             message: jsonData.message || '[No message]',
                             author: jsonData.author || commit.author_name || 'Unknown',
-                            date: commitDate,
-                            files: []
+                            date: commitDate
                         });
                         
                         console.log(`[Report Pilot] Successfully parsed JSON commit: ${jsonData.message}`);
@@ -333,11 +888,11 @@ export function parseGitLog(logResult: LogResult): CommitInfo[] {
                 console.log(`[Report Pilot] Final message value: "${message}"`);
                 
                 commits.push({
+                    ...toCommitInfo(commit),
                     hash: commit.hash || '[No hash]',
                     message: message,
                     author: commit.author_name || 'Unknown',
-                    date: commitDate,
-                    files: []
+                    date: commitDate
                 });
             } catch (parseError) {
                 console.error('[Report Pilot] Error parsing commit:', parseError, commit);
@@ -354,12 +909,27 @@ export function parseGitLog(logResult: LogResult): CommitInfo[] {
     return commits;
 }
 
+/**
+ * Read the week start day, "last N days" count and sprint cadence from the settings
+ */
+export function getDateRangeSettings(): DateRangeOptions {
+    const config = vscode.workspace.getConfiguration('reportPilot');
+    const weekStartDay = WEEKDAYS.indexOf(config.get<string>('weekStartDay', 'sunday').toLowerCase());
+    
+    return {
+        weekStartDay: weekStartDay >= 0 ? weekStartDay : 0,
+        days: config.get<number>('lastDays', 30),
+        sprintStartDate: config.get<string>('sprintStartDate', '').trim() || undefined,
+        sprintLengthWeeks: config.get<number>('sprintLengthWeeks', 2)
+    };
+}
+
 /**
  * Get predefined date ranges for common time periods
  */
-export function getDateRange(period: 'today' | 'yesterday' | 'thisWeek' | 'lastWeek' | 'custom' = 'today'): DateRange {
-    const now = new Date();
+export function getDateRange(period: TimeSpan = 'today', options: DateRangeOptions = getDateRangeSettings(), now: Date = new Date()): DateRange {
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfToday = dayjs(today);
     
     switch (period) {
         case 'today':
@@ -375,31 +945,43 @@ export function getDateRange(period: 'today' | 'yesterday' | 'thisWeek' | 'lastW
                 to: yesterday // Use the same day for "yesterday" for clearer filtering
             };
         }
-        case 'thisWeek': {
-            // Get first day of current week (Sunday = 0)
-            const startOfWeek = new Date(today);
-            const currentDay = today.getDay(); // 0 for Sunday, 1 for Monday, etc.
-            startOfWeek.setDate(today.getDate() - currentDay); // Go back to Sunday
+        case 'thisWeek':
+        case 'lastWeek': {
+            // Go back to the configured first day of the week
+            const weekStartDay = options.weekStartDay || 0;
+            const startOfWeek = startOfToday.subtract((today.getDay() - weekStartDay + 7) % 7, 'day');
+            return period === 'thisWeek'
+                ? { from: startOfWeek.toDate(), to: now }
+                : previousPeriod(startOfWeek, 7, 'day');
+        }
+        case 'thisMonth':
+        case 'lastMonth': {
+            const startOfMonth = startOfToday.startOf('month');
+            return period === 'thisMonth'
+                ? { from: startOfMonth.toDate(), to: now }
+                : previousPeriod(startOfMonth, 1, 'month');
+        }
+        case 'thisQuarter':
+        case 'lastQuarter': {
+            // Quarters start in January, April, July and October
+            const startOfQuarter = startOfToday.startOf('month').month(Math.floor(today.getMonth() / 3) * 3);
+            return period === 'thisQuarter'
+                ? { from: startOfQuarter.toDate(), to: now }
+                : previousPeriod(startOfQuarter, 3, 'month');
+        }
+        case 'lastNDays': {
+            const days = Math.max(1, Math.floor(options.days || 30));
             return {
-                from: startOfWeek,
+                from: startOfToday.subtract(days - 1, 'day').toDate(),
                 to: now
             };
         }
-        case 'lastWeek': {
-            // Last week = 7-13 days ago
-            const startOfLastWeek = new Date(today);
-            const currentDay = today.getDay();
-            // Go back to Sunday of last week
-            startOfLastWeek.setDate(today.getDate() - currentDay - 7);
-            
-            const endOfLastWeek = new Date(startOfLastWeek);
-            endOfLastWeek.setDate(startOfLastWeek.getDate() + 6); // Saturday of last week
-            endOfLastWeek.setHours(23, 59, 59, 999);
-            
-            return {
-                from: startOfLastWeek,
-                to: endOfLastWeek
-            };
+        case 'thisSprint':
+        case 'lastSprint': {
+            const startOfSprint = getSprintStart(startOfToday, options);
+            return period === 'thisSprint'
+                ? { from: startOfSprint.toDate(), to: now }
+                : previousPeriod(startOfSprint, getSprintLengthDays(options), 'day');
         }
         default:
             return {
@@ -409,6 +991,117 @@ export function getDateRange(period: 'today' | 'yesterday' | 'thisWeek' | 'lastW
     }
 }
 
+const NAMED_TIME_SPANS: Record<string, TimeSpan> = {
+    'today': 'today',
+    'yesterday': 'yesterday',
+    'this week': 'thisWeek',
+    'last week': 'lastWeek',
+    'this month': 'thisMonth',
+    'last month': 'lastMonth',
+    'this quarter': 'thisQuarter',
+    'last quarter': 'lastQuarter',
+    'this sprint': 'thisSprint',
+    'last sprint': 'lastSprint'
+};
+
+const RELATIVE_UNITS: Record<string, 'day' | 'week' | 'month' | 'year'> = {
+    d: 'day', day: 'day',
+    w: 'week', week: 'week',
+    m: 'month', month: 'month',
+    y: 'year', year: 'year'
+};
+
+/**
+ * Parse a date range typed as text:
+ * - a named period, e.g. "today", "last week", "this quarter", "last sprint"
+ * - a number of days, weeks, months or years up to today, e.g. "last 10 days", "past 2 weeks", "3m"
+ * - "since 2024-01-01", a single day "2024-01-05", or "2024-01-01 to 2024-01-31" (also "..")
+ * @returns undefined if the text is not a valid range, including ranges that end before they start
+ */
+export function parseRelativeDateRange(text: string, options: DateRangeOptions = getDateRangeSettings(), now: Date = new Date()): DateRange | undefined {
+    const input = text.trim().toLowerCase().replace(/\s+/g, ' ');
+    const startOfToday = dayjs(now).startOf('day');
+    
+    if (NAMED_TIME_SPANS[input]) {
+        return getDateRange(NAMED_TIME_SPANS[input], options, now);
+    }
+    
+    // Count back from today, including today itself
+    const relative = input.match(/^(?:(?:last|past) )?(\d+) ?(d|w|m|y|day|week|month|year)s?$/);
+    if (relative) {
+        const count = Number(relative[1]);
+        if (count < 1) {
+            return undefined;
+        }
+        return {
+            from: startOfToday.subtract(count, RELATIVE_UNITS[relative[2]]).add(1, 'day').toDate(),
+            to: now
+        };
+    }
+    
+    const since = input.match(/^since (\d{4}-\d{2}-\d{2})$/);
+    if (since) {
+        const from = parseDay(since[1]);
+        return from && from <= now ? { from, to: now } : undefined;
+    }
+    
+    const range = input.match(/^(\d{4}-\d{2}-\d{2})(?:(?: to | - )| ?\.\. ?)(\d{4}-\d{2}-\d{2})$/) || input.match(/^((\d{4}-\d{2}-\d{2}))$/);
+    if (range) {
+        const from = parseDay(range[1]);
+        const to = parseDay(range[2]);
+        if (!from || !to || to < from) {
+            return undefined;
+        }
+        return {
+            from,
+            to: dayjs(to).endOf('day').toDate()
+        };
+    }
+    
+    return undefined;
+}
+
+/**
+ * Parse a YYYY-MM-DD date as a local day, rejecting days that do not exist such as 2024-02-30
+ */
+function parseDay(text: string): Date | undefined {
+    const [year, month, day] = text.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+}
+
+/**
+ * The complete period of the given length that ends just before `start`
+ */
+function previousPeriod(start: dayjs.Dayjs, length: number, unit: 'day' | 'month'): DateRange {
+    return {
+        from: start.subtract(length, unit).toDate(),
+        to: start.subtract(1, 'millisecond').toDate()
+    };
+}
+
+/**
+ * Sprint length in days, from the `reportPilot.sprintLengthWeeks` setting
+ */
+function getSprintLengthDays(options: DateRangeOptions): number {
+    return Math.max(1, Math.floor(options.sprintLengthWeeks || 2)) * 7;
+}
+
+/**
+ * Start of the sprint containing `day`, counted in whole sprints from the configured sprint start date
+ */
+function getSprintStart(day: dayjs.Dayjs, options: DateRangeOptions): dayjs.Dayjs {
+    const sprintStartDate = options.sprintStartDate || '';
+    const anchor = dayjs(sprintStartDate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(sprintStartDate) || !anchor.isValid()) {
+        throw new Error('Set "reportPilot.sprintStartDate" to the start date of a sprint (YYYY-MM-DD) to use sprint time spans');
+    }
+    
+    const sprintLength = getSprintLengthDays(options);
+    const sprints = Math.floor(Math.round(day.diff(anchor.startOf('day'), 'day', true)) / sprintLength);
+    return anchor.startOf('day').add(sprints * sprintLength, 'day');
+}
+
 /**
  * Summarize commits into a report format
  */
@@ -524,34 +1217,83 @@ export function generateAIWorkReport(commits: CommitInfo[]): string {
         report += '\n';
     }
 
-    // 2. Add a work breakdown by day section
-    report += '## Daily Work Breakdown\n\n';
-    
-    // Sort days chronologically
-    const sortedDays = Array.from(commitsByDay.keys()).sort();
-    for (const day of sortedDays) {
-        const dayCommits = commitsByDay.get(day) || [];
-        report += `### ${day}\n\n`;
-        
-        // Group commits by type (feature, fix, docs, etc.)
-        const commitsByType = categorizeCommitsByType(dayCommits);
-        
-        for (const [type, typeCommits] of Object.entries(commitsByType)) {
-            if (typeCommits.length > 0) {
-                report += `**${capitalizeFirstLetter(type)}:**\n`;
-                typeCommits.forEach(commit => {
-                    // Clean up the commit message
-                    const cleanMessage = cleanCommitMessage(commit.message);
-                    report += `- ${cleanMessage} (${commit.hash})\n`;
+    // 2. Present merged work per pull request, the way reviewers and managers know it
+    const commitsByRepository = groupCommitsByRepository(commits);
+    const pullRequests = groupCommitsByPullRequest(commits);
+    if (pullRequests.length > 0) {
+        report += '## Pull Requests\n\n';
+        for (const { pullRequest, commits: groupCommits } of pullRequests) {
+            // The merge commit only records the merge, unless it is all there is
+            const mergedCommits = groupCommits.filter(commit => commit.hash !== pullRequest.mergeCommit || pullRequest.squashed);
+            const pullRequestCommits = mergedCommits.length > 0 ? mergedCommits : groupCommits;
+            const repository = commitsByRepository.size > 1 && pullRequestCommits[0].repository ? `[${pullRequestCommits[0].repository}] ` : '';
+            const count = `${pullRequestCommits.length} commit${pullRequestCommits.length === 1 ? '' : 's'}`;
+            report += `- ${repository}**${getPullRequestLabel(pullRequest)}** — ${pullRequest.squashed ? `${count} (squashed)` : count}\n`;
+            if (!pullRequest.squashed) {
+                pullRequestCommits.forEach(commit => {
+                    report += `  - ${cleanCommitMessage(commit.message)} (${commit.hash})\n`;
                 });
-                report += '\n';
             }
         }
+        report += '\n';
+    }
+
+    // 3. Group the work by the issues the commits mention, with the remaining commits last
+    const issues = groupCommitsByIssue(commits);
+    if (issues.length > 0) {
+        report += '## Work by Issue\n\n';
+        for (const issue of issues) {
+            const url = getIssueUrl(issue.key);
+            report += `### ${formatIssueLabel(url ? `[${issue.key}](${url})` : issue.key, issue.issue)}\n\n`;
+            issue.commits.forEach(commit => {
+                report += `- ${cleanCommitMessage(commit.message)} (${commit.hash})\n`;
+            });
+            report += '\n';
+        }
+        
+        const otherCommits = commits.filter(commit => !commit.issueKeys || commit.issueKeys.length === 0);
+        if (otherCommits.length > 0) {
+            report += '### Without an Issue\n\n';
+            otherCommits.forEach(commit => {
+                report += `- ${cleanCommitMessage(commit.message)} (${commit.hash})\n`;
+            });
+            report += '\n';
+        }
+    }
+
+    // 4. Add a work breakdown by day section, split per repository when commits come from several
+    if (commitsByRepository.size > 1) {
+        report += '## Work by Repository\n\n';
+        
+        const repositories = Array.from(commitsByRepository.values())
+            .sort((a, b) => (a[0].repository || '').localeCompare(b[0].repository || ''));
+        for (const repositoryCommits of repositories) {
+            const insertions = repositoryCommits.reduce((total, commit) => total + (commit.insertions || 0), 0);
+            const deletions = repositoryCommits.reduce((total, commit) => total + (commit.deletions || 0), 0);
+            report += `### ${repositoryCommits[0].repository || 'Other'}\n\n`;
+            report += `${repositoryCommits.length} commit${repositoryCommits.length === 1 ? '' : 's'}, +${insertions} / -${deletions} lines\n\n`;
+            report += formatDailyBreakdown(repositoryCommits, dateFormat, '####');
+        }
+    } else {
+        report += '## Daily Work Breakdown\n\n';
+        report += formatDailyBreakdown(commits, dateFormat, '###');
     }
     
-    // 3. Add metrics and statistics
+    // 5. Add the estimated time spent, for filling in timesheets
+    report += formatTimeSpent(commits, dateFormat);
+    
+    // 6. Add metrics and statistics
     report += '## Work Metrics\n\n';
     report += `- **Total commits:** ${commits.length}\n`;
+    if (pullRequests.length > 0) {
+        report += `- **Pull requests:** ${pullRequests.length}\n`;
+    }
+    if (issues.length > 0) {
+        report += `- **Issues:** ${issues.length}\n`;
+    }
+    if (commitsByRepository.size > 1) {
+        report += `- **Repositories:** ${commitsByRepository.size}\n`;
+    }
     
     // Calculate commits per day
     const daysWorked = commitsByDay.size;
@@ -559,6 +1301,15 @@ export function generateAIWorkReport(commits: CommitInfo[]): string {
     report += `- **Days worked:** ${daysWorked}\n`;
     report += `- **Commits per day:** ${commitsPerDay}\n`;
     
+    // Add line and file counts when diff statistics are available
+    const fileStats = summarizeFileChanges(commits);
+    if (fileStats.length > 0) {
+        const insertions = commits.reduce((total, commit) => total + (commit.insertions || 0), 0);
+        const deletions = commits.reduce((total, commit) => total + (commit.deletions || 0), 0);
+        report += `- **Files changed:** ${fileStats.length}\n`;
+        report += `- **Lines changed:** +${insertions} / -${deletions}\n`;
+    }
+    
     // Add time period
     if (commits.length > 0) {
         // Sort commits chronologically
@@ -568,7 +1319,16 @@ export function generateAIWorkReport(commits: CommitInfo[]): string {
         report += `- **Time period:** ${startDate} to ${endDate}\n\n`;
     }
     
-    // 4. Add work focus areas from keyword analysis
+    // Add the files that saw the most change
+    if (fileStats.length > 0) {
+        report += '## Most Changed Files\n\n';
+        fileStats.slice(0, 5).forEach(stat => {
+            report += `- \`${stat.path}\`: +${stat.insertions} / -${stat.deletions} in ${stat.commits} commit${stat.commits === 1 ? '' : 's'}\n`;
+        });
+        report += '\n';
+    }
+    
+    // 7. Add work focus areas from keyword analysis
     if (Object.keys(keywords).length > 0) {
         report += '## Focus Areas\n\n';
         
@@ -586,6 +1346,234 @@ export function generateAIWorkReport(commits: CommitInfo[]): string {
     return report;
 }
 
+// Commit messages that hint at something holding the work up
+const BLOCKER_PATTERN = /\b(block(ed|er|ing)?|stuck|waiting|revert(ed)?|workaround|hack|todo)\b/i;
+
+/**
+ * Generate a concise "Yesterday / Today / Blockers" standup update
+ */
+export function generateStandupReport(standup: StandupData): string {
+    const dateFormat = vscode.workspace.getConfiguration('reportPilot').get('dateFormat', 'YYYY-MM-DD');
+    const showRepository = groupCommitsByRepository(standup.yesterday.concat(standup.today)).size > 1
+        || standup.workingTree.length > 1;
+    
+    const formatCommit = (commit: CommitInfo) => {
+        const repository = showRepository && commit.repository ? `**${commit.repository}:** ` : '';
+        return `- ${repository}${capitalizeFirstLetter(cleanCommitMessage(commit.message))}\n`;
+    };
+    
+    let report = `# Daily Standup - ${dayjs().format(dateFormat)}\n\n`;
+    
+    // Oldest first reads like a story of the day
+    report += '## Yesterday\n\n';
+    if (standup.yesterday.length > 0) {
+        [...standup.yesterday].reverse().forEach(commit => report += formatCommit(commit));
+    } else {
+        report += `- No commits since ${dayjs(standup.previousWorkday).format(dateFormat)}\n`;
+    }
+    report += '\n';
+    
+    report += '## Today\n\n';
+    [...standup.today].reverse().forEach(commit => report += formatCommit(commit));
+    for (const status of standup.workingTree) {
+        const files = status.changes.slice(0, 5).map(change => `\`${change.path}\``).join(', ');
+        const more = status.changes.length > 5 ? ` and ${status.changes.length - 5} more` : '';
+        const repository = showRepository ? `**${status.repository}:** ` : '';
+        const branch = status.branch ? ` on \`${status.branch}\`` : '';
+        report += `- ${repository}Continuing work${branch}: ${status.changes.length} uncommitted file${status.changes.length === 1 ? '' : 's'} (${files}${more})\n`;
+    }
+    if (standup.today.length === 0 && standup.workingTree.length === 0) {
+        report += '- No commits or uncommitted changes yet\n';
+    }
+    report += '\n';
+    
+    report += '## Blockers\n\n';
+    const possibleBlockers = standup.yesterday.concat(standup.today).filter(commit => BLOCKER_PATTERN.test(commit.message));
+    if (possibleBlockers.length > 0) {
+        possibleBlockers.forEach(commit => report += `- Possibly: ${cleanCommitMessage(commit.message)} (${commit.hash})\n`);
+    } else {
+        report += '- None\n';
+    }
+    
+    return report;
+}
+
+/**
+ * Format the estimated time spent per day, branch and issue as a report section
+ */
+function formatTimeSpent(commits: CommitInfo[], dateFormat: string): string {
+    const options = getTimeEstimateSettings();
+    const estimate = estimateWorkTime(commits, options, dateFormat);
+    
+    let section = '## Time Spent\n\n';
+    section += `Estimated from commit times: commits up to ${options.sessionGapMinutes} minutes apart count as one work session, `
+        + `and each session starts ${options.firstCommitMinutes} minutes before its first commit.\n\n`;
+    section += `- **Total:** ${formatHours(estimate.totalMinutes)} in ${estimate.sessions.length} session${estimate.sessions.length === 1 ? '' : 's'}\n\n`;
+    
+    section += '**By day:**\n';
+    Array.from(estimate.byDay.keys()).sort().forEach(day => {
+        section += `- ${day}: ${formatHours(estimate.byDay.get(day) || 0)}\n`;
+    });
+    section += '\n';
+    
+    const byMinutes = (totals: Map<string, number>) => Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+    
+    section += '**By branch:**\n';
+    byMinutes(estimate.byBranch).forEach(([branch, minutes]) => {
+        section += `- ${branch}: ${formatHours(minutes)}\n`;
+    });
+    section += '\n';
+    
+    if (estimate.byIssue.size > 0) {
+        const issues = new Map(groupCommitsByIssue(commits).map(issue => [issue.key, issue.issue] as [string, IssueMetadata | undefined]));
+        section += '**By issue:**\n';
+        byMinutes(estimate.byIssue).forEach(([key, minutes]) => {
+            section += `- ${formatIssueLabel(key, issues.get(key))}: ${formatHours(minutes)}\n`;
+        });
+        section += '\n';
+    }
+    
+    return section;
+}
+
+/**
+ * Format commits as a per-day list grouped by commit type
+ */
+function formatDailyBreakdown(commits: CommitInfo[], dateFormat: string, headingPrefix: string): string {
+    const commitsByDay = new Map<string, CommitInfo[]>();
+    for (const commit of commits) {
+        const dayKey = dayjs(commit.date).format(dateFormat);
+        if (!commitsByDay.has(dayKey)) {
+            commitsByDay.set(dayKey, []);
+        }
+        commitsByDay.get(dayKey)?.push(commit);
+    }
+    
+    let breakdown = '';
+    
+    // Sort days chronologically
+    const sortedDays = Array.from(commitsByDay.keys()).sort();
+    for (const day of sortedDays) {
+        const dayCommits = commitsByDay.get(day) || [];
+        breakdown += `${headingPrefix} ${day}\n\n`;
+        
+        // Group commits by type (feature, fix, docs, etc.)
+        const commitsByType = categorizeCommitsByType(dayCommits);
+        
+        for (const [type, typeCommits] of Object.entries(commitsByType)) {
+            if (typeCommits.length > 0) {
+                breakdown += `**${capitalizeFirstLetter(type)}:**\n`;
+                typeCommits.forEach(commit => {
+                    // Clean up the commit message
+                    const cleanMessage = cleanCommitMessage(commit.message);
+                    breakdown += `- ${cleanMessage} (${commit.hash})\n`;
+                });
+                breakdown += '\n';
+            }
+        }
+    }
+    
+    return breakdown;
+}
+
+/**
+ * Aggregate line counts per file across commits, most changed first
+ */
+export function summarizeFileChanges(commits: CommitInfo[]): { path: string; insertions: number; deletions: number; commits: number }[] {
+    const stats = new Map<string, { path: string; insertions: number; deletions: number; commits: number }>();
+    
+    // Paths are only unique within a repository
+    const multipleRepositories = groupCommitsByRepository(commits).size > 1;
+    
+    for (const commit of commits) {
+        for (const change of commit.fileChanges || []) {
+            const filePath = multipleRepositories && commit.repository ? `${commit.repository}/${change.path}` : change.path;
+            const stat = stats.get(filePath) || { path: filePath, insertions: 0, deletions: 0, commits: 0 };
+            stat.insertions += change.insertions;
+            stat.deletions += change.deletions;
+            stat.commits++;
+            stats.set(filePath, stat);
+        }
+    }
+    
+    return Array.from(stats.values())
+        .sort((a, b) => (b.insertions + b.deletions) - (a.insertions + a.deletions));
+}
+
+/**
+ * Read the work time estimation settings
+ */
+export function getTimeEstimateSettings(): TimeEstimateOptions {
+    const config = vscode.workspace.getConfiguration('reportPilot');
+    
+    return {
+        sessionGapMinutes: config.get<number>('timeEstimation.sessionGapMinutes', 120),
+        firstCommitMinutes: config.get<number>('timeEstimation.firstCommitMinutes', 30)
+    };
+}
+
+/**
+ * Estimate the time spent on commits from their timestamps. Each author's commits are clustered into
+ * work sessions: a commit within `sessionGapMinutes` of the previous one continues the session and is
+ * credited with the time since that commit, while the first commit of a session is credited with
+ * `firstCommitMinutes`. Commit times are then summed per day, branch and issue.
+ * @param dateFormat Format of the day keys of `byDay`
+ */
+export function estimateWorkTime(
+    commits: CommitInfo[],
+    options: TimeEstimateOptions = getTimeEstimateSettings(),
+    dateFormat: string = 'YYYY-MM-DD'
+): TimeEstimate {
+    const estimate: TimeEstimate = { totalMinutes: 0, sessions: [], byDay: new Map(), byBranch: new Map(), byIssue: new Map() };
+    const add = (totals: Map<string, number>, key: string, minutes: number) => totals.set(key, (totals.get(key) || 0) + minutes);
+    
+    // Sessions are per author; two people committing at the same time both worked
+    const commitsByAuthor = new Map<string, CommitInfo[]>();
+    for (const commit of commits) {
+        const author = (commit.authorEmail || commit.author).toLowerCase();
+        const authorCommits = commitsByAuthor.get(author);
+        if (authorCommits) {
+            authorCommits.push(commit);
+        } else {
+            commitsByAuthor.set(author, [commit]);
+        }
+    }
+    
+    for (const authorCommits of commitsByAuthor.values()) {
+        const sorted = [...authorCommits].sort((a, b) => a.date.getTime() - b.date.getTime());
+        let session: WorkSession | undefined;
+        
+        for (const commit of sorted) {
+            const gap = session ? (commit.date.getTime() - session.end.getTime()) / 60000 : Infinity;
+            const minutes = gap <= options.sessionGapMinutes ? gap : options.firstCommitMinutes;
+            
+            if (!session || gap > options.sessionGapMinutes) {
+                session = { author: commit.author, start: commit.date, end: commit.date, commits: [], minutes: 0 };
+                estimate.sessions.push(session);
+            }
+            session.end = commit.date;
+            session.commits.push(commit);
+            session.minutes += minutes;
+            
+            estimate.totalMinutes += minutes;
+            add(estimate.byDay, dayjs(commit.date).format(dateFormat), minutes);
+            add(estimate.byBranch, commit.branch || '(no branch)', minutes);
+            const issueKeys = commit.issueKeys || [];
+            issueKeys.forEach(key => add(estimate.byIssue, key, minutes / issueKeys.length));
+        }
+    }
+    
+    estimate.sessions.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return estimate;
+}
+
+/**
+ * Format minutes as hours for timesheets, e.g. "2.5h"
+ */
+export function formatHours(minutes: number): string {
+    return `${Number((minutes / 60).toFixed(1))}h`;
+}
+
 /**
  * Analyzes commit messages to extract meaningful keywords
  */
@@ -690,7 +1678,7 @@ function identifyBugFixes(commits: CommitInfo[]): string[] {
 /**
  * Categorize commits by their conventional commit type
  */
-function categorizeCommitsByType(commits: CommitInfo[]): Record<string, CommitInfo[]> {
+export function categorizeCommitsByType(commits: CommitInfo[]): Record<string, CommitInfo[]> {
     const categories: Record<string, CommitInfo[]> = {
         'feature': [],
         'fix': [],
@@ -780,7 +1768,7 @@ function categorizeCommitsByType(commits: CommitInfo[]): Record<string, CommitIn
 /**
  * Clean up commit messages for better readability
  */
-function cleanCommitMessage(message: string): string {
+export function cleanCommitMessage(message: string): string {
     return message
         .replace(/^(feat|fix|docs|refactor|test|chore)(\(.*?\))?:?\s*/i, '')
         .trim();
@@ -797,9 +1785,9 @@ function capitalizeFirstLetter(str: string): string {
 /**
  * Get branch name for a specific commit
  */
-export async function getBranchForCommit(commitHash: string): Promise<string | undefined> {
+export async function getBranchForCommit(commitHash: string, repositoryPath?: string): Promise<string | undefined> {
     try {
-        const git = getGit();
+        const git = getGit(repositoryPath);
         if (!git) {
             return undefined;
         }
@@ -834,98 +1822,380 @@ export async function getBranchForCommit(commitHash: string): Promise<string | u
 }
 
 /**
- * Get branch information for an array of commits
+ * Get branch and pull request information for an array of commits
  * This is optimized to batch the branch lookups to reduce git calls
  */
-export async function addBranchInfoToCommits(commits: CommitInfo[]): Promise<CommitInfo[]> {
+export async function addBranchInfoToCommits(commits: CommitInfo[], token?: vscode.CancellationToken): Promise<CommitInfo[]> {
     if (!commits.length) {
         return commits;
     }
     
+    // Branches are looked up in the repository each commit came from
+    const updated = new Map<CommitInfo, CommitInfo>();
+    for (const [repositoryPath, repositoryCommits] of groupCommitsByRepository(commits)) {
+        const withBranches = await addBranchInfoToRepositoryCommits(repositoryCommits, repositoryPath || undefined, token);
+        repositoryCommits.forEach((commit, index) => updated.set(commit, withBranches[index]));
+    }
+    
+    return commits.map(commit => updated.get(commit) || commit);
+}
+
+/**
+ * A branch tip, local or on a remote
+ */
+export interface BranchRef {
+    name: string; // Branch name without the remote, e.g. "feature/login"
+    shortName: string; // Name as git prints it, e.g. "origin/feature/login"
+    hash: string;
+    remote: boolean;
+}
+
+/**
+ * A commit in the history graph used to attribute commits to branches
+ */
+export interface CommitGraphNode {
+    hash: string;
+    parents: string[];
+    subject: string;
+    body?: string;
+}
+
+// Branches whose first-parent history is attributed before any other branch
+const MAINLINE_BRANCHES = ['main', 'master', 'trunk', 'develop', 'development'];
+
+// Merge commit subjects written by git and the common hosting services, capturing the merged branch
+const MERGE_SUBJECT_PATTERNS: RegExp[] = [
+    /^Merge pull request #\d+ from [^/\s]+\/(\S+)/, // GitHub: "Merge pull request #12 from owner/feature"
+    /^Merge remote-tracking branch '(?:[^/']+\/)?([^']+)'/, // "Merge remote-tracking branch 'origin/feature'"
+    /^Merge branch '([^']+)'/, // git and GitLab: "Merge branch 'feature' into 'main'"
+    /^Merged in (\S+)/ // Bitbucket: "Merged in feature (pull request #12)"
+];
+
+// Merge commit subjects that name a pull request: GitHub, Bitbucket and Azure DevOps
+const PULL_REQUEST_MERGE_PATTERNS: RegExp[] = [
+    /^Merge pull request #(\d+) from /,
+    /^Merged in \S+ \(pull request #(\d+)\)/,
+    /^Merged PR (\d+): (.+)/
+];
+
+// GitLab names the merge request in the body of the merge commit: "See merge request group/project!123"
+const MERGE_REQUEST_REFERENCE = /^See merge request \S*!(\d+)/m;
+
+// Squash merges keep the pull request number at the end of the subject: "Add login page (#123)"
+const SQUASH_MERGE_SUBJECT = /^(.+?)\s*\(#(\d+)\)$/;
+
+// Commit lookups passed to a single `git name-rev` call
+const NAME_REV_BATCH_SIZE = 200;
+
+/**
+ * Get the branch a merge commit merged from its subject
+ */
+export function getMergedBranch(subject: string): string | undefined {
+    for (const pattern of MERGE_SUBJECT_PATTERNS) {
+        const match = pattern.exec(subject);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Names of the branches whose first-parent history is the mainline, the remote's default branch first
+ */
+function getMainlineBranches(defaultBranch?: string): string[] {
+    return [defaultBranch, ...MAINLINE_BRANCHES]
+        .filter((name, index, names): name is string => !!name && names.indexOf(name) === index);
+}
+
+/**
+ * Hashes of a commit and its first-parent ancestors within the graph
+ */
+function getFirstParentHistory(nodes: Map<string, CommitGraphNode>, hash: string | undefined): Set<string> {
+    const history = new Set<string>();
+    while (hash && !history.has(hash)) {
+        const node = nodes.get(hash);
+        if (!node) {
+            break;
+        }
+        history.add(hash);
+        hash = node.parents[0];
+    }
+    return history;
+}
+
+/**
+ * Attribute commits to the branch they were authored on. A commit belongs to the first branch that
+ * claims it, and a branch claims a commit together with its first-parent ancestors:
+ * 1. the mainline branches (the default branch, main, master, ...) claim their own history;
+ * 2. merge commits, newest first, claim their merged parents for the branch named in the subject;
+ * 3. the remaining local, then remote, branch tips claim what is left.
+ * @param graph Commits newest first
+ * @param defaultBranch Default branch of the remote, if known
+ * @returns The branch of each attributed commit hash
+ */
+export function attributeCommitsToBranches(graph: CommitGraphNode[], refs: BranchRef[], defaultBranch?: string): Map<string, string> {
+    const nodes = new Map(graph.map(node => [node.hash, node] as [string, CommitGraphNode]));
+    const branches = new Map<string, string>();
+
+    const claim = (hash: string | undefined, branch: string) => {
+        while (hash && !branches.has(hash)) {
+            const node = nodes.get(hash);
+            if (!node) {
+                return;
+            }
+            branches.set(hash, branch);
+            hash = node.parents[0];
+        }
+    };
+
+    // Local branches before their remote counterparts
+    const sortedRefs = [...refs].sort((a, b) => Number(a.remote) - Number(b.remote));
+
+    for (const name of getMainlineBranches(defaultBranch)) {
+        sortedRefs.filter(ref => ref.name === name).forEach(ref => claim(ref.hash, name));
+    }
+
+    for (const node of graph) {
+        const mergedBranch = node.parents.length > 1 ? getMergedBranch(node.subject) : undefined;
+        if (mergedBranch) {
+            node.parents.slice(1).forEach(parent => claim(parent, mergedBranch));
+        }
+    }
+
+    sortedRefs.forEach(ref => claim(ref.hash, ref.name));
+
+    return branches;
+}
+
+/**
+ * Get the pull request number and title from a merge commit, if its message names one
+ */
+function parsePullRequestMerge(node: CommitGraphNode): { number: number; title: string } | undefined {
+    const body = node.body || '';
+    let number: number | undefined;
+    let title: string | undefined;
+
+    for (const pattern of PULL_REQUEST_MERGE_PATTERNS) {
+        const match = pattern.exec(node.subject);
+        if (match) {
+            number = Number(match[1]);
+            title = match[2];
+            break;
+        }
+    }
+    if (number === undefined) {
+        const reference = MERGE_REQUEST_REFERENCE.exec(body);
+        if (!reference) {
+            return undefined;
+        }
+        number = Number(reference[1]);
+    }
+
+    // The pull request title is the first line of the body, unless the subject already had it
+    const firstLine = body.split('\n').map(line => line.trim()).find(line => line && !MERGE_REQUEST_REFERENCE.test(line));
+    return { number, title: title || firstLine || getMergedBranch(node.subject) || node.subject };
+}
+
+/**
+ * Find the pull request each commit was merged through:
+ * - a merge commit whose message names a pull request claims itself and the commits it merged, i.e.
+ *   those reachable from its other parents without passing the first-parent history of its first parent.
+ *   Older merges claim first, so the commits of stacked pull requests keep the innermost one;
+ * - a commit on the mainline's first-parent history whose subject ends in "(#123)" is a squash merge.
+ * @param graph Commits newest first
+ * @returns The pull request of each commit hash that belongs to one
+ */
+export function detectPullRequests(graph: CommitGraphNode[], refs: BranchRef[], defaultBranch?: string): Map<string, PullRequestInfo> {
+    const nodes = new Map(graph.map(node => [node.hash, node] as [string, CommitGraphNode]));
+    const pullRequests = new Map<string, PullRequestInfo>();
+
+    for (const node of [...graph].reverse()) {
+        const merge = node.parents.length > 1 ? parsePullRequestMerge(node) : undefined;
+        if (!merge) {
+            continue;
+        }
+
+        const pullRequest: PullRequestInfo = { ...merge, squashed: false, mergeCommit: node.hash };
+        const base = getFirstParentHistory(nodes, node.parents[0]);
+        const visited = new Set<string>();
+        const queue = [node.hash];
+        let hash: string | undefined;
+        while ((hash = queue.pop()) !== undefined) {
+            const current = nodes.get(hash);
+            if (!current || visited.has(hash) || base.has(hash)) {
+                continue;
+            }
+            visited.add(hash);
+            if (!pullRequests.has(hash)) {
+                pullRequests.set(hash, pullRequest);
+            }
+            queue.push(...(hash === node.hash ? current.parents.slice(1) : current.parents));
+        }
+    }
+
+    // Squash merges land on the mainline; elsewhere "(#123)" more likely refers to an issue
+    const mainline = new Set<string>();
+    const mainlineNames = getMainlineBranches(defaultBranch);
+    refs.filter(ref => mainlineNames.includes(ref.name))
+        .forEach(ref => getFirstParentHistory(nodes, ref.hash).forEach(hash => mainline.add(hash)));
+
+    for (const node of graph) {
+        const match = node.parents.length <= 1 ? SQUASH_MERGE_SUBJECT.exec(node.subject) : null;
+        if (match && !pullRequests.has(node.hash) && (mainline.size === 0 || mainline.has(node.hash))) {
+            pullRequests.set(node.hash, { number: Number(match[2]), title: match[1], squashed: true, mergeCommit: node.hash });
+        }
+    }
+
+    return pullRequests;
+}
+
+/**
+ * Label of a pull request as shown in the Commits view and reports, e.g. "PR #123: Add login page"
+ */
+export function getPullRequestLabel(pullRequest: PullRequestInfo): string {
+    return `PR #${pullRequest.number}: ${pullRequest.title}`;
+}
+
+/**
+ * Get branch and pull request information for commits from a single repository, in a bounded number of git calls:
+ * one for the branch tips, one for the history graph and, for commits no branch claims, one
+ * `git name-rev` call per batch
+ */
+async function addBranchInfoToRepositoryCommits(
+    commits: CommitInfo[],
+    repositoryPath: string | undefined,
+    token?: vscode.CancellationToken
+): Promise<CommitInfo[]> {
+    const abort = toAbortSignal(token);
     try {
-        const git = getGit();
+        const git = getGit(repositoryPath, abort?.signal);
         if (!git) {
             return commits;
         }
-        
-        // Get all branch information first
-        const branchesResult = await git.branch();
-        const currentBranchName = branchesResult.current;
-        console.log(`[Report Pilot] Current branch: ${currentBranchName}`);
 
-        // Create a map to store the commit-to-branch relationship
-        const commitBranchMap = new Map<string, string>();
-        
-        // Get the commit history for each branch to determine original branch
-        const branches = Object.keys(branchesResult.branches);
-        for (const branchName of branches) {
-            try {
-                if (branchName === 'HEAD') continue; // Skip detached HEAD
-                
-                console.log(`[Report Pilot] Getting commits for branch: ${branchName}`);
-                
-                // Fetch commit history for this specific branch
-                const branchCommits = await git.log({
-                    from: branchName, 
-                    maxCount: 100 // Reasonable limit to avoid too many commits
-                });
-                
-                // Find first-parent commits that are unique to this branch
-                // These are the commits that were likely made directly to this branch
-                for (const commit of branchCommits.all) {
-                    // Only store if we haven't encountered this commit yet or it's from a feature branch
-                    if (!commitBranchMap.has(commit.hash) || 
-                        (branchName !== 'main' && branchName !== 'master')) {
-                        commitBranchMap.set(commit.hash, branchName);
-                    }
-                }
-            } catch (error) {
-                console.warn(`[Report Pilot] Error getting commits for branch ${branchName}:`, error);
-            }
+        const { refs, defaultBranch } = await getBranchRefs(git);
+
+        // The graph only needs to reach back to the oldest commit, but merges and branch tips may be newer
+        const oldest = Math.min(...commits.map(commit => commit.date.getTime()));
+        const graph = await getCommitGraph(git, dayjs(oldest).subtract(1, 'day').toDate());
+        if (token?.isCancellationRequested) {
+            return commits;
         }
-        
-        // If we couldn't find branch info with the approach above, use the traditional method
-        for (const commit of commits) {
-            if (!commitBranchMap.has(commit.hash)) {
-                try {
-                    // Traditional approach: Use branch --contains to find branches containing this commit
-                    const result = await git.raw([
-                        'branch', '--contains', commit.hash
-                    ]);
-                    
-                    if (result) {
-                        const branches = result.split('\n')
-                            .map(b => b.trim())
-                            .filter(b => b.length > 0)
-                            .map(b => b.replace('*', '').trim());
-                        
-                        if (branches.length > 0) {
-                            // If commit is in multiple branches, prefer main/master as it's likely merged
-                            const mainBranch = branches.find(b => 
-                                b === 'main' || b === 'master'
-                            );
-                            
-                            commitBranchMap.set(
-                                commit.hash, 
-                                mainBranch || branches[0]
-                            );
-                        }
-                    }
-                } catch (error) {
-                    console.warn(`[Report Pilot] Error finding branch for commit ${commit.hash}:`, error);
-                }
+
+        const commitBranchMap = attributeCommitsToBranches(graph, refs, defaultBranch);
+        const pullRequests = detectPullRequests(graph, refs, defaultBranch);
+
+        const unattributed = commits.map(commit => commit.hash).filter(hash => !commitBranchMap.has(hash));
+        for (let i = 0; i < unattributed.length; i += NAME_REV_BATCH_SIZE) {
+            if (token?.isCancellationRequested) {
+                return commits;
             }
+            const names = await nameRevisions(git, unattributed.slice(i, i + NAME_REV_BATCH_SIZE), refs);
+            names.forEach((branch, hash) => commitBranchMap.set(hash, branch));
         }
-        
-        console.log(`[Report Pilot] Branch mapping complete. Found mappings for ${commitBranchMap.size} commits.`);
-        
-        // Update commits with branch information
-        return commits.map(commit => ({
-            ...commit,
-            branch: commitBranchMap.get(commit.hash)
-        }));
+
+        return commits.map(commit => {
+            const pullRequest = pullRequests.get(commit.hash);
+            return {
+                ...commit,
+                branch: commitBranchMap.get(commit.hash),
+                pullRequest,
+                // "#12" in the subject of a pull request's merge or squash commit is the pull request, not an issue
+                issueKeys: pullRequest && pullRequest.mergeCommit === commit.hash && commit.issueKeys
+                    ? commit.issueKeys.filter(key => key !== `#${pullRequest.number}`)
+                    : commit.issueKeys
+            };
+        });
     } catch (error) {
         console.error('[Report Pilot] Error adding branch info to commits:', error);
         return commits;
+    } finally {
+        abort?.dispose();
+    }
+}
+
+/**
+ * List local and remote branch tips, and the remote's default branch if it is known
+ */
+async function getBranchRefs(git: SimpleGit): Promise<{ refs: BranchRef[]; defaultBranch?: string }> {
+    const output = await git.raw(['for-each-ref', '--format=%(refname)%09%(objectname)%09%(symref)', 'refs/heads', 'refs/remotes']);
+    const refs: BranchRef[] = [];
+    let defaultBranch: string | undefined;
+
+    for (const line of output.split('\n')) {
+        const [refName, hash, symref] = line.trim().split('\t');
+        if (!refName || !hash) {
+            continue;
+        }
+
+        if (refName.startsWith('refs/heads/')) {
+            const name = refName.slice('refs/heads/'.length);
+            refs.push({ name, shortName: name, hash, remote: false });
+        } else if (refName.startsWith('refs/remotes/')) {
+            const shortName = refName.slice('refs/remotes/'.length);
+            const separator = shortName.indexOf('/');
+            if (separator < 0) {
+                continue;
+            }
+            // origin/HEAD points at the default branch rather than being a branch itself
+            if (shortName.endsWith('/HEAD')) {
+                if (symref && !defaultBranch) {
+                    defaultBranch = symref.replace(/^refs\/remotes\/[^/]+\//, '');
+                }
+                continue;
+            }
+            refs.push({ name: shortName.slice(separator + 1), shortName, hash, remote: true });
+        }
+    }
+
+    return { refs, defaultBranch };
+}
+
+/**
+ * Read the parents and messages of all branch commits since a date, newest first
+ */
+async function getCommitGraph(git: SimpleGit, since: Date): Promise<CommitGraphNode[]> {
+    // Fields are split by the unit separator and commits by NUL, as message bodies span several lines
+    const output = await git.raw([
+        'log', '--branches', '--remotes', '--date-order', '-z',
+        `--since=${since.toISOString()}`,
+        '--format=%H%x1f%P%x1f%s%x1f%b'
+    ]);
+
+    return output.split('\0')
+        .filter(entry => entry.trim())
+        .map(entry => {
+            const [hash, parents, subject, body] = entry.replace(/^\n/, '').split('\x1f');
+            return {
+                hash,
+                parents: parents ? parents.split(' ') : [],
+                subject: subject || '',
+                body: (body || '').trim()
+            };
+        });
+}
+
+/**
+ * Name commits after the nearest branch tip that reaches them, with a single `git name-rev` call
+ */
+async function nameRevisions(git: SimpleGit, hashes: string[], refs: BranchRef[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    if (hashes.length === 0) {
+        return names;
     }
+
+    const branchNames = new Map(refs.map(ref => [ref.shortName, ref.name] as [string, string]));
+    const output = await git.raw(['name-rev', '--name-only', '--refs=refs/heads/*', '--refs=refs/remotes/*', ...hashes]);
+
+    output.split('\n').slice(0, hashes.length).forEach((line, index) => {
+        // e.g. "remotes/origin/feature~2" or "main^2~1"
+        const shortName = line.trim().replace(/[~^].*$/, '').replace(/^remotes\//, '');
+        const branch = branchNames.get(shortName);
+        if (branch) {
+            names.set(hashes[index], branch);
+        }
+    });
+
+    return names;
 }
\ No newline at end of file
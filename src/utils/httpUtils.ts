@@ -0,0 +1,210 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Options for a JSON HTTP request
+ */
+export interface JsonRequestOptions {
+    body?: unknown;
+    headers?: Record<string, string>;
+    timeout?: number;
+}
+
+/**
+ * Send a JSON request and parse the JSON response
+ */
+export function requestJson<T = unknown>(
+    method: 'GET' | 'POST',
+    url: string,
+    options: JsonRequestOptions = {}
+): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch (error) {
+            reject(new Error(`Invalid URL: ${url}`));
+            return;
+        }
+
+        const payload = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+        const transport = target.protocol === 'http:' ? http : https;
+
+        const request = transport.request(target, {
+            method,
+            headers: {
+                'Accept': 'application/json',
+                ...(payload !== undefined ? {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(payload).toString()
+                } : {}),
+                ...options.headers
+            }
+        }, response => {
+            let data = '';
+            response.setEncoding('utf8');
+            response.on('data', chunk => data += chunk);
+            response.on('end', () => {
+                const status = response.statusCode || 0;
+                if (status < 200 || status >= 300) {
+                    reject(new Error(`Request to ${target.host} failed with status ${status}: ${data.slice(0, 500)}`));
+                    return;
+                }
+
+                try {
+                    resolve(data ? JSON.parse(data) : undefined);
+                } catch (error) {
+                    reject(new Error(`Invalid JSON response from ${target.host}: ${error}`));
+                }
+            });
+        });
+
+        if (options.timeout) {
+            request.setTimeout(options.timeout, () => {
+                request.destroy(Object.assign(new Error(`Request to ${target.host} timed out after ${options.timeout}ms`), { code: 'ETIMEDOUT' }));
+            });
+        }
+
+        request.on('error', reject);
+
+        if (payload !== undefined) {
+            request.write(payload);
+        }
+        request.end();
+    });
+}
+
+/**
+ * POST a JSON body and parse the JSON response
+ */
+export function postJson<T = unknown>(url: string, body: unknown, headers?: Record<string, string>, timeout?: number): Promise<T> {
+    return requestJson<T>('POST', url, { body, headers, timeout });
+}
+
+/**
+ * GET a URL and parse the JSON response
+ */
+export function getJson<T = unknown>(url: string, headers?: Record<string, string>, timeout?: number): Promise<T> {
+    return requestJson<T>('GET', url, { headers, timeout });
+}
+
+/**
+ * POST a JSON body and invoke a callback for every line of the streamed response.
+ * Used for server-sent events and newline-delimited JSON streams.
+ * The request is torn down when the optional signal is aborted.
+ */
+export function postJsonStream(
+    url: string,
+    body: unknown,
+    onLine: (line: string) => void,
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
+): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch (error) {
+            reject(new Error(`Invalid URL: ${url}`));
+            return;
+        }
+
+        const payload = JSON.stringify(body);
+        const transport = target.protocol === 'http:' ? http : https;
+
+        // The signal may outlive the request, e.g. when several requests share a token
+        const onAbort = () => request.destroy(new Error('Request aborted'));
+        const settle = (error?: unknown) => {
+            signal?.removeEventListener('abort', onAbort);
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        const request = transport.request(target, {
+            method: 'POST',
+            headers: {
+                'Accept': 'text/event-stream, application/x-ndjson, application/json',
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(payload).toString(),
+                ...headers
+            }
+        }, response => {
+            const status = response.statusCode || 0;
+            let buffer = '';
+            response.setEncoding('utf8');
+
+            if (status < 200 || status >= 300) {
+                response.on('data', chunk => buffer += chunk);
+                response.on('end', () => {
+                    settle(new Error(`Request to ${target.host} failed with status ${status}: ${buffer.slice(0, 500)}`));
+                });
+                return;
+            }
+
+            response.on('data', chunk => {
+                buffer += chunk;
+
+                // Hand over complete lines and keep the trailing partial line buffered
+                const lines = buffer.split(/\r?\n/);
+                buffer = lines.pop() || '';
+
+                try {
+                    lines.filter(line => line.trim()).forEach(onLine);
+                } catch (error) {
+                    request.destroy(error as Error);
+                }
+            });
+            response.on('end', () => {
+                try {
+                    if (buffer.trim()) {
+                        onLine(buffer);
+                    }
+                    settle();
+                } catch (error) {
+                    settle(error);
+                }
+            });
+            response.on('error', settle);
+        });
+
+        if (signal) {
+            if (signal.aborted) {
+                request.destroy(new Error('Request aborted'));
+            } else {
+                signal.addEventListener('abort', onAbort, { once: true });
+            }
+        }
+
+        request.on('error', settle);
+        request.write(payload);
+        request.end();
+    });
+}
+
+/**
+ * Extract the payload of a server-sent events `data:` line
+ */
+export function parseSseData(line: string): string | undefined {
+    if (!line.startsWith('data:')) {
+        return undefined;
+    }
+    return line.slice('data:'.length).trim();
+}
+
+/**
+ * Check whether an error means nothing is listening at the target address
+ */
+export function isConnectionError(error: unknown): boolean {
+    const code = (error as NodeJS.ErrnoException)?.code;
+    return code === 'ECONNREFUSED' || code === 'ECONNRESET' || code === 'EHOSTUNREACH' || code === 'ENOTFOUND';
+}
+
+/**
+ * Check whether an error means the target did not answer within the request timeout
+ */
+export function isTimeoutError(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ETIMEDOUT';
+}
@@ -1,3 +1,12 @@
 // Export all utilities from this file for easier imports
 export * from './gitUtils';
-export * from './aiUtils';
\ No newline at end of file
+export * from './aiUtils';
+export * from './aiProviders';
+export * from './localModels';
+export * from './secretUtils';
+export * from './templateUtils';
+export * from './exportUtils';
+export * from './markdownUtils';
+export * from './reportHistory';
+export * from './commitFilter';
+export * from './issueUtils';
\ No newline at end of file
@@ -0,0 +1,437 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitInfo } from './gitUtils';
+import { getJson, isConnectionError, isTimeoutError } from './httpUtils';
+
+/**
+ * An entry of the `reportPilot.issueTrackers` setting
+ */
+export interface IssueTrackerConfig {
+    pattern: string; // Regular expression matching an issue key, e.g. "\\bPROJ-\\d+\\b"
+    url?: string; // Link for a key, with {key} and {number} placeholders
+}
+
+/**
+ * A kind of issue key and where its issues live
+ */
+export interface IssueTracker {
+    pattern: RegExp;
+    url?: string;
+}
+
+/**
+ * Details of an issue from the issue tracker
+ */
+export interface IssueMetadata {
+    key: string;
+    title?: string;
+    status?: string;
+}
+
+/**
+ * An issue key found in a piece of text
+ */
+export interface IssueKeyMatch {
+    key: string;
+    index: number;
+    tracker: IssueTracker;
+}
+
+// Issue metadata loaded from a file or endpoint, keyed by file path or URL
+const issueMetadataCache = new Map<string, { loadedAt: number; modifiedAt?: number; issues: Map<string, IssueMetadata> }>();
+
+// Last error shown for the issue metadata source, so a broken source is reported once rather than on every refresh
+let lastIssueMetadataError: string | undefined;
+
+// Columns of a CSV export that hold the issue key, title and status, e.g. Jira's "Issue key", "Summary" and "Status"
+const CSV_KEY_COLUMNS = ['issue key', 'key', 'issue', 'identifier', 'id', 'number'];
+const CSV_TITLE_COLUMNS = ['summary', 'title', 'name'];
+const CSV_STATUS_COLUMNS = ['status', 'state'];
+
+// Give up on an issue metadata endpoint that does not answer within this time
+const ISSUE_REQUEST_TIMEOUT = 10000;
+
+// Requests sent at the same time to an endpoint serving one issue per request
+const ISSUE_REQUEST_CONCURRENCY = 4;
+
+// Jira-style keys such as PROJ-123 or GH-78, and GitHub-style #456. Names of standards
+// and the like, e.g. UTF-8, SHA-256 or ISO-8601, look the same and are left out.
+const DEFAULT_ISSUE_TRACKERS: IssueTrackerConfig[] = [
+    { pattern: '\\b(?!(?:UTF|SHA|ISO|RFC|CVE|COVID|AES|RSA|TLS|SSL|HTTP)-)[A-Z][A-Z0-9_]+-\\d+\\b' },
+    { pattern: '(?<![\\w&/])#\\d+\\b' }
+];
+
+/**
+ * Read the issue trackers from the settings. Invalid patterns are skipped.
+ */
+export function getIssueTrackers(): IssueTracker[] {
+    const configs = vscode.workspace.getConfiguration('reportPilot').get<IssueTrackerConfig[]>('issueTrackers', DEFAULT_ISSUE_TRACKERS);
+    const trackers: IssueTracker[] = [];
+
+    for (const config of configs) {
+        if (!config || !config.pattern) {
+            continue;
+        }
+        try {
+            trackers.push({ pattern: new RegExp(config.pattern), url: config.url || undefined });
+        } catch (error) {
+            console.warn(`[Report Pilot] Ignoring invalid issue key pattern "${config.pattern}":`, error);
+        }
+    }
+
+    return trackers;
+}
+
+/**
+ * Find the issue keys in a text, in order of appearance. Where the patterns of several trackers
+ * match the same text, the tracker listed first wins.
+ */
+export function findIssueKeys(text: string, trackers: IssueTracker[]): IssueKeyMatch[] {
+    const matches: IssueKeyMatch[] = [];
+
+    for (const tracker of trackers) {
+        const pattern = new RegExp(tracker.pattern.source, tracker.pattern.flags.replace('g', '') + 'g');
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            if (!match[0]) {
+                pattern.lastIndex++;
+                continue;
+            }
+            const start = match.index;
+            const end = start + match[0].length;
+            if (!matches.some(other => start < other.index + other.key.length && other.index < end)) {
+                matches.push({ key: match[0], index: start, tracker });
+            }
+        }
+    }
+
+    return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Get the distinct issue keys mentioned in a text
+ */
+export function extractIssueKeys(text: string, trackers: IssueTracker[] = getIssueTrackers()): string[] {
+    return Array.from(new Set(findIssueKeys(text, trackers).map(match => match.key)));
+}
+
+/**
+ * Build the link for an issue key from its tracker's URL template
+ * @returns undefined when the tracker has no URL
+ */
+export function formatIssueUrl(key: string, tracker: IssueTracker): string | undefined {
+    if (!tracker.url) {
+        return undefined;
+    }
+    const number = (/(\d+)\D*$/.exec(key) || ['', ''])[1];
+    return tracker.url
+        .replace(/\{key\}/g, encodeURIComponent(key))
+        .replace(/\{number\}/g, number);
+}
+
+/**
+ * Get the link for an issue key from the first tracker whose pattern matches the whole key
+ */
+export function getIssueUrl(key: string, trackers: IssueTracker[] = getIssueTrackers()): string | undefined {
+    const match = findIssueKeys(key, trackers).find(found => found.index === 0 && found.key === key);
+    return match ? formatIssueUrl(key, match.tracker) : undefined;
+}
+
+/**
+ * Label of an issue with whatever details are known, e.g. "PROJ-123 Checkout redesign (In Review)"
+ */
+export function formatIssueLabel(key: string, issue?: IssueMetadata): string {
+    return [key, issue?.title, issue?.status && `(${issue.status})`].filter(Boolean).join(' ');
+}
+
+/**
+ * Group commits by the issues they mention, in order of first mention, with the issue details when known.
+ * A commit that mentions several issues belongs to each of them; commits without an issue are left out.
+ */
+export function groupCommitsByIssue(commits: CommitInfo[]): { key: string; issue?: IssueMetadata; commits: CommitInfo[] }[] {
+    const groups = new Map<string, { key: string; issue?: IssueMetadata; commits: CommitInfo[] }>();
+
+    const sorted = [...commits].sort((a, b) => a.date.getTime() - b.date.getTime());
+    for (const commit of sorted) {
+        for (const key of commit.issueKeys || []) {
+            if (!groups.has(key)) {
+                groups.set(key, { key, commits: [] });
+            }
+            const group = groups.get(key);
+            if (group) {
+                group.issue = group.issue || (commit.issues || []).find(issue => issue.key === key);
+                group.commits.push(commit);
+            }
+        }
+    }
+
+    return Array.from(groups.values());
+}
+
+/**
+ * Add the details of the issues each commit mentions, from the `reportPilot.issueMetadata.source` setting.
+ * Commits are returned unchanged when no source is configured or it cannot be read.
+ */
+export async function addIssueMetadataToCommits(commits: CommitInfo[]): Promise<CommitInfo[]> {
+    const keys = Array.from(new Set(commits.reduce<string[]>((all, commit) => all.concat(commit.issueKeys || []), [])));
+    if (keys.length === 0) {
+        return commits;
+    }
+
+    let issues: Map<string, IssueMetadata>;
+    try {
+        issues = await loadIssueMetadata(keys);
+        lastIssueMetadataError = undefined;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn('[Report Pilot] Error loading issue metadata:', error);
+        if (message !== lastIssueMetadataError) {
+            lastIssueMetadataError = message;
+            vscode.window.showWarningMessage(`Could not load issue details: ${message}`);
+        }
+        return commits;
+    }
+
+    return commits.map(commit => {
+        const commitIssues = (commit.issueKeys || [])
+            .map(key => issues.get(key))
+            .filter((issue): issue is IssueMetadata => !!issue);
+        return commitIssues.length > 0 ? { ...commit, issues: commitIssues } : commit;
+    });
+}
+
+/**
+ * Load the details of issues from the configured source:
+ * - a JSON or CSV export file, read again when it changes;
+ * - an HTTP endpoint serving such a JSON export, reused for `reportPilot.issueMetadata.cacheMinutes`;
+ * - an HTTP endpoint with a `{key}` placeholder serving one issue per request, cached per issue.
+ */
+export async function loadIssueMetadata(keys: string[]): Promise<Map<string, IssueMetadata>> {
+    const config = vscode.workspace.getConfiguration('reportPilot');
+    const source = config.get<string>('issueMetadata.source', '').trim();
+    if (!source) {
+        return new Map();
+    }
+
+    const maxAge = config.get<number>('issueMetadata.cacheMinutes', 15) * 60 * 1000;
+    if (!/^https?:\/\//i.test(source)) {
+        return readIssueExport(resolveSourcePath(source));
+    }
+    if (!source.includes('{key}')) {
+        return cached(source, maxAge, async () => toIssueMap(parseIssueJson(await getJson(source, undefined, ISSUE_REQUEST_TIMEOUT))));
+    }
+
+    const issues = new Map<string, IssueMetadata>();
+    const pending = keys.slice();
+    const loadNext = async (): Promise<void> => {
+        const key = pending.shift();
+        if (key === undefined) {
+            return;
+        }
+
+        const url = source.replace(/\{key\}/g, encodeURIComponent(key));
+        try {
+            const found = await cached(url, maxAge, async () => {
+                try {
+                    const [issue] = parseIssueJson(await getJson(url, undefined, ISSUE_REQUEST_TIMEOUT), key);
+                    // Keep the key that was asked for, which may be written differently by the tracker
+                    return toIssueMap(issue ? [{ ...issue, key }] : []);
+                } catch (error) {
+                    // An unknown issue is remembered as such; an unreachable or hanging endpoint fails the whole load
+                    if (isConnectionError(error) || isTimeoutError(error)) {
+                        throw error;
+                    }
+                    console.warn(`[Report Pilot] No issue details for ${key}:`, error);
+                    return new Map<string, IssueMetadata>();
+                }
+            });
+            found.forEach((issue, issueKey) => issues.set(issueKey, issue));
+        } catch (error) {
+            // Stop the other requests from picking up more keys
+            pending.length = 0;
+            throw error;
+        }
+        await loadNext();
+    };
+
+    await Promise.all(Array.from({ length: Math.min(ISSUE_REQUEST_CONCURRENCY, keys.length) }, loadNext));
+    return issues;
+}
+
+/**
+ * Read issues from a JSON or CSV export, unless the cached copy is still current
+ */
+async function readIssueExport(filePath: string): Promise<Map<string, IssueMetadata>> {
+    const stats = await fs.promises.stat(filePath);
+    const entry = issueMetadataCache.get(filePath);
+    if (entry && entry.modifiedAt === stats.mtimeMs) {
+        return entry.issues;
+    }
+
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const issues = toIssueMap(path.extname(filePath).toLowerCase() === '.csv'
+        ? parseIssueCsv(content)
+        : parseIssueJson(JSON.parse(content.replace(/^\uFEFF/, ''))));
+    issueMetadataCache.set(filePath, { loadedAt: Date.now(), modifiedAt: stats.mtimeMs, issues });
+    return issues;
+}
+
+/**
+ * Reuse issues loaded from a URL until they are older than maxAge
+ */
+async function cached(url: string, maxAge: number, load: () => Promise<Map<string, IssueMetadata>>): Promise<Map<string, IssueMetadata>> {
+    const entry = issueMetadataCache.get(url);
+    if (entry && Date.now() - entry.loadedAt < maxAge) {
+        return entry.issues;
+    }
+
+    const issues = await load();
+    issueMetadataCache.set(url, { loadedAt: Date.now(), issues });
+    return issues;
+}
+
+/**
+ * Read issues from JSON: a list of issues, a Jira export with an `issues` list,
+ * a single issue, or an object keyed by issue key with issues or titles as values
+ * @param key Key to use when the JSON is a single issue without one
+ */
+export function parseIssueJson(data: unknown, key?: string): IssueMetadata[] {
+    if (Array.isArray(data)) {
+        return data.map(item => toIssueMetadata(item)).filter((issue): issue is IssueMetadata => !!issue);
+    }
+    if (!data || typeof data !== 'object') {
+        return [];
+    }
+
+    const record = data as Record<string, unknown>;
+    if (Array.isArray(record.issues)) {
+        return parseIssueJson(record.issues);
+    }
+    const single = toIssueMetadata(record, key);
+    if (single && (single.title || single.status)) {
+        return [single];
+    }
+    return Object.entries(record)
+        .map(([issueKey, value]) => typeof value === 'string' ? { key: issueKey, title: value } : toIssueMetadata(value, issueKey))
+        .filter((issue): issue is IssueMetadata => !!issue);
+}
+
+/**
+ * Map an issue as exported by Jira, GitHub, Linear or a plain `{ key, title, status }` object
+ */
+function toIssueMetadata(value: unknown, fallbackKey?: string): IssueMetadata | undefined {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const item = value as Record<string, unknown>;
+    const fields = (item.fields && typeof item.fields === 'object' ? item.fields : {}) as Record<string, unknown>;
+    const textOf = (field: unknown) => typeof field === 'string' && field ? field : undefined;
+    const idOf = (field: unknown) => typeof field === 'number' ? String(field) : textOf(field);
+    const nameOf = (field: unknown) => textOf(field)
+        || (field && typeof field === 'object' ? textOf((field as Record<string, unknown>).name) : undefined);
+
+    const number = idOf(item.number);
+    const key = textOf(item.key) || textOf(item.identifier) || (number ? `#${number}` : undefined) || fallbackKey || idOf(item.id);
+    if (!key) {
+        return undefined;
+    }
+    return {
+        key,
+        title: textOf(item.title) || textOf(item.summary) || textOf(fields.summary) || textOf(item.name),
+        status: nameOf(item.status) || nameOf(fields.status) || nameOf(item.state)
+    };
+}
+
+/**
+ * Read issues from a CSV export with a header row, e.g. Jira's "Issue key", "Summary" and "Status" columns
+ */
+export function parseIssueCsv(content: string): IssueMetadata[] {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+        return [];
+    }
+
+    const columns = header.map(name => name.trim().toLowerCase());
+    const findColumn = (names: string[]) => names.map(name => columns.indexOf(name)).find(index => index >= 0);
+    const keyColumn = findColumn(CSV_KEY_COLUMNS);
+    const titleColumn = findColumn(CSV_TITLE_COLUMNS);
+    const statusColumn = findColumn(CSV_STATUS_COLUMNS);
+    if (keyColumn === undefined) {
+        throw new Error(`The CSV export has no issue key column (one of: ${CSV_KEY_COLUMNS.join(', ')})`);
+    }
+
+    const numbered = columns[keyColumn] === 'number';
+    return rows
+        .filter(row => row[keyColumn] && row[keyColumn].trim())
+        .map(row => ({
+            key: numbered ? `#${row[keyColumn].trim()}` : row[keyColumn].trim(),
+            title: titleColumn !== undefined ? row[titleColumn] || undefined : undefined,
+            status: statusColumn !== undefined ? row[statusColumn] || undefined : undefined
+        }));
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas, quotes and line breaks
+ */
+function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Index issues by key
+ */
+function toIssueMap(issues: IssueMetadata[]): Map<string, IssueMetadata> {
+    return new Map(issues.map(issue => [issue.key, issue] as [string, IssueMetadata]));
+}
+
+/**
+ * Resolve the issue export path from settings, expanding `~`, `${workspaceFolder}` and workspace-relative paths
+ */
+function resolveSourcePath(sourcePath: string): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const resolved = sourcePath
+        .replace(/^~(?=$|[\\/])/, os.homedir())
+        .replace(/\$\{workspaceFolder\}/g, workspaceFolder || '');
+    return path.isAbsolute(resolved) || !workspaceFolder ? resolved : path.join(workspaceFolder, resolved);
+}
@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import { GenerateReportOptions, ReportGenerator, ReportPrompt } from './aiProviders';
+import { getJson, postJsonStream, parseSseData, isConnectionError } from './httpUtils';
+import { toAbortSignal } from './cancellationUtils';
+
+/**
+ * Local model servers that can generate reports without sending data to the cloud
+ */
+export type LocalModelServer = 'ollama' | 'llamaCpp';
+
+/**
+ * Settings for the local model generator (`reportPilot.localModel.*`)
+ */
+export interface LocalModelConfig {
+    server: LocalModelServer;
+    url: string;
+    model: string;
+}
+
+const DEFAULT_URLS: Record<LocalModelServer, string> = {
+    ollama: 'http://localhost:11434',
+    llamaCpp: 'http://localhost:8080'
+};
+
+const SERVER_LABELS: Record<LocalModelServer, string> = {
+    ollama: 'Ollama',
+    llamaCpp: 'llama.cpp'
+};
+
+// Health checks and model listing should fail fast when nothing is listening
+const PROBE_TIMEOUT = 3000;
+
+/**
+ * Response of Ollama's `/api/tags`
+ */
+interface OllamaTagsResponse {
+    models?: { name: string }[];
+}
+
+/**
+ * Response of the OpenAI-style `/v1/models` served by llama.cpp
+ */
+interface ModelListResponse {
+    data?: { id: string }[];
+}
+
+/**
+ * Read the local model settings
+ */
+export function getLocalModelConfig(): LocalModelConfig {
+    const config = vscode.workspace.getConfiguration('reportPilot.localModel');
+    const server = config.get<LocalModelServer>('server', 'ollama');
+
+    return {
+        server,
+        url: (config.get<string>('url') || DEFAULT_URLS[server]).replace(/\/+$/, ''),
+        model: config.get<string>('model', '')
+    };
+}
+
+/**
+ * Check whether the local model generator is enabled in settings
+ */
+export function isLocalModelEnabled(): boolean {
+    return vscode.workspace.getConfiguration('reportPilot.localModel').get<boolean>('enabled', false);
+}
+
+/**
+ * Generator that talks to an Ollama or llama.cpp server
+ */
+export class LocalModelReportGenerator implements ReportGenerator {
+    public readonly id = 'localModel';
+    public readonly label: string;
+    public readonly description: string;
+
+    constructor(private readonly config: LocalModelConfig = getLocalModelConfig()) {
+        this.label = `Local Model (${SERVER_LABELS[config.server]})`;
+        this.description = `${config.model || 'no model selected'} at ${config.url}`;
+    }
+
+    /**
+     * Check whether the server is reachable and responding
+     */
+    public async checkHealth(): Promise<boolean> {
+        try {
+            if (this.config.server === 'ollama') {
+                await getJson(`${this.config.url}/api/version`, undefined, PROBE_TIMEOUT);
+            } else {
+                const health = await getJson<{ status?: string } | undefined>(`${this.config.url}/health`, undefined, PROBE_TIMEOUT);
+                // llama.cpp reports "loading model" while it is still starting up
+                if (health?.status && health.status !== 'ok') {
+                    return false;
+                }
+            }
+            return true;
+        } catch (error) {
+            console.log(`[Report Pilot] Local model server health check failed: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * List the models available on the server
+     */
+    public async listModels(): Promise<string[]> {
+        try {
+            if (this.config.server === 'ollama') {
+                const result = await getJson<OllamaTagsResponse | undefined>(`${this.config.url}/api/tags`, undefined, PROBE_TIMEOUT);
+                return (result?.models || []).map(model => model.name);
+            }
+
+            const result = await getJson<ModelListResponse | undefined>(`${this.config.url}/v1/models`, undefined, PROBE_TIMEOUT);
+            return (result?.data || []).map(model => model.id);
+        } catch (error) {
+            throw this.toServerError(error);
+        }
+    }
+
+    public async generateReport(prompt: ReportPrompt, options: GenerateReportOptions = {}): Promise<string> {
+        if (!await this.checkHealth()) {
+            throw new Error(this.getNotRunningMessage());
+        }
+
+        const model = this.config.model || await this.pickModel();
+        if (!model) {
+            throw new Error(`No model selected for ${SERVER_LABELS[this.config.server]}.`);
+        }
+
+        const messages = [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user }
+        ];
+        const abort = toAbortSignal(options.token);
+        let content = '';
+
+        const append = (text: string | undefined) => {
+            if (text) {
+                content += text;
+                options.onChunk?.(text);
+            }
+        };
+
+        try {
+            if (this.config.server === 'ollama') {
+                // Ollama streams newline-delimited JSON objects
+                await postJsonStream(`${this.config.url}/api/chat`, {
+                    model,
+                    messages,
+                    stream: true
+                }, line => {
+                    const event = JSON.parse(line);
+                    if (event.error) {
+                        throw new Error(event.error);
+                    }
+                    append(event.message?.content);
+                }, {}, abort?.signal);
+            } else {
+                // llama.cpp serves an OpenAI-compatible chat completions endpoint with SSE streaming
+                await postJsonStream(`${this.config.url}/v1/chat/completions`, {
+                    model,
+                    messages,
+                    stream: true
+                }, line => {
+                    const data = parseSseData(line);
+                    if (!data || data === '[DONE]') {
+                        return;
+                    }
+                    append(JSON.parse(data).choices?.[0]?.delta?.content);
+                }, {}, abort?.signal);
+            }
+        } catch (error) {
+            throw this.toServerError(error);
+        } finally {
+            abort?.dispose();
+        }
+
+        if (!content) {
+            throw new Error(`No content received from ${this.label}`);
+        }
+        return content;
+    }
+
+    /**
+     * Let the user choose one of the server's models and remember the choice
+     */
+    public async pickModel(): Promise<string | undefined> {
+        const models = await this.listModels();
+        if (models.length === 0) {
+            vscode.window.showWarningMessage(
+                this.config.server === 'ollama'
+                    ? 'No models found on the Ollama server. Pull one first, e.g. `ollama pull llama3`.'
+                    : 'The llama.cpp server did not report any models.'
+            );
+            return undefined;
+        }
+
+        const model = models.length === 1
+            ? models[0]
+            : await vscode.window.showQuickPick(models, { placeHolder: `Select a ${SERVER_LABELS[this.config.server]} model` });
+
+        if (model) {
+            await vscode.workspace.getConfiguration('reportPilot.localModel')
+                .update('model', model, vscode.ConfigurationTarget.Global);
+        }
+
+        return model;
+    }
+
+    /**
+     * Message shown when the server cannot be reached
+     */
+    private getNotRunningMessage(): string {
+        const hint = this.config.server === 'ollama'
+            ? 'Start it with `ollama serve`'
+            : 'Start it with `llama-server -m <model.gguf>`';
+        return `${SERVER_LABELS[this.config.server]} server is not running at ${this.config.url}. ${hint} or update reportPilot.localModel.url.`;
+    }
+
+    /**
+     * Turn connection failures into a clear "server not running" error
+     */
+    private toServerError(error: unknown): Error {
+        if (isConnectionError(error)) {
+            return new Error(this.getNotRunningMessage());
+        }
+        return error instanceof Error ? error : new Error(String(error));
+    }
+}
@@ -0,0 +1,182 @@
+import MarkdownIt from 'markdown-it';
+import sanitizeHtml from 'sanitize-html';
+import { IssueTracker, findIssueKeys, formatIssueUrl } from './issueUtils';
+
+// CommonMark renderer. Raw HTML in a report is shown as text rather than rendered.
+const markdownRenderer = new MarkdownIt('commonmark', { html: false, linkify: true })
+    .enable(['table', 'strikethrough', 'linkify']);
+
+// Turn issue keys in text into links to their tracker; the trackers are passed in the render environment
+markdownRenderer.core.ruler.push('issue_links', state => {
+    const trackers: IssueTracker[] = (state.env && state.env.issueTrackers) || [];
+    if (!trackers.some(tracker => tracker.url)) {
+        return;
+    }
+
+    for (const blockToken of state.tokens) {
+        if (blockToken.type !== 'inline' || !blockToken.children) {
+            continue;
+        }
+
+        const children: typeof blockToken.children = [];
+        let linkDepth = 0;
+        for (const token of blockToken.children) {
+            if (token.type === 'link_open') {
+                linkDepth++;
+            } else if (token.type === 'link_close') {
+                linkDepth--;
+            }
+            if (token.type !== 'text' || linkDepth > 0) {
+                children.push(token);
+                continue;
+            }
+
+            const addText = (content: string) => {
+                const text = new state.Token('text', '', 0);
+                text.content = content;
+                children.push(text);
+            };
+
+            let position = 0;
+            for (const issue of findIssueKeys(token.content, trackers)) {
+                const url = formatIssueUrl(issue.key, issue.tracker);
+                if (!url) {
+                    continue;
+                }
+                if (issue.index > position) {
+                    addText(token.content.slice(position, issue.index));
+                }
+                const linkOpen = new state.Token('link_open', 'a', 1);
+                linkOpen.attrs = [['href', url]];
+                children.push(linkOpen);
+                addText(issue.key);
+                children.push(new state.Token('link_close', 'a', -1));
+                position = issue.index + issue.key.length;
+            }
+            if (position === 0) {
+                children.push(token);
+            } else if (position < token.content.length) {
+                addText(token.content.slice(position));
+            }
+        }
+        blockToken.children = children;
+    }
+});
+
+// Tags and attributes the renderer produces; anything else is removed from the output
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+        'ul', 'ol', 'li', 'strong', 'em', 's', 'code', 'pre', 'a', 'img',
+        'table', 'thead', 'tbody', 'tr', 'th', 'td'
+    ],
+    allowedAttributes: {
+        a: ['href', 'title'],
+        img: ['src', 'alt', 'title'],
+        ol: ['start'],
+        code: ['class']
+    },
+    allowedClasses: {
+        code: [/^language-[\w-]+$/]
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: {
+        img: ['https', 'data']
+    },
+    allowProtocolRelative: false
+};
+
+/**
+ * Convert report Markdown to sanitized HTML for display and export
+ * @param issueTrackers Trackers whose issue keys are linked, see getIssueTrackers
+ */
+export function markdownToHtml(content: string, issueTrackers: IssueTracker[] = []): string {
+    return sanitizeHtml(markdownRenderer.render(content, { issueTrackers }), SANITIZE_OPTIONS);
+}
+
+/**
+ * Escape text for use in HTML
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Create a random nonce for a webview's Content-Security-Policy
+ */
+export function getNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+    }
+    return nonce;
+}
+
+/**
+ * Content-Security-Policy for a webview that only runs scripts and styles carrying the nonce
+ */
+export function getContentSecurityPolicy(webview: { cspSource: string }, nonce: string): string {
+    return [
+        `default-src 'none'`,
+        `img-src ${webview.cspSource} https: data:`,
+        `style-src ${webview.cspSource} 'nonce-${nonce}'`,
+        `script-src 'nonce-${nonce}'`
+    ].join('; ');
+}
+
+/**
+ * Strip Markdown syntax from report text, leaving readable plain text
+ */
+export function markdownToPlainText(content: string): string {
+    return content
+        .replace(/^---+$/gm, '')
+        .replace(/^(#{1,6})\s+(.*)$/gm, (match, hashes: string, heading: string) =>
+            `${heading}\n${(hashes.length === 1 ? '=' : '-').repeat(heading.length)}`)
+        .replace(/\*\*(.*?)\*\*/g, '$1')
+        .replace(/__(.*?)__/g, '$1')
+        .replace(/(^|[^*])\*(?!\s)(.*?)\*/g, '$1$2')
+        .replace(/(^|\W)_(?!\s)(.*?)_(?=\W|$)/g, '$1$2')
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/\[([^\]]*)\]\(([^)]*)\)/g, '$1 ($2)')
+        .replace(/^(\s*)[-*+] /gm, '$1• ');
+}
+
+/**
+ * A heading and the Markdown below it, up to the next heading
+ */
+export interface MarkdownSection {
+    title: string;
+    level: number;
+    content: string;
+}
+
+/**
+ * Split report Markdown into sections at its headings.
+ * Text before the first heading becomes a section with an empty title.
+ */
+export function splitMarkdownSections(content: string): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    let current: MarkdownSection = { title: '', level: 0, content: '' };
+
+    for (const line of content.split(/\r?\n/)) {
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            if (current.title || current.content.trim()) {
+                sections.push({ ...current, content: current.content.trim() });
+            }
+            current = { title: heading[2].trim(), level: heading[1].length, content: '' };
+        } else {
+            current.content += `${line}\n`;
+        }
+    }
+
+    if (current.title || current.content.trim()) {
+        sections.push({ ...current, content: current.content.trim() });
+    }
+    return sections;
+}
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { ExportableReport } from './exportUtils';
+
+/**
+ * A generated report kept in the report history
+ */
+export interface ReportHistoryEntry {
+    id: string;
+    title: string;
+    name?: string; // Name given by the user, shown instead of the title
+    createdAt: string; // ISO timestamp
+    period?: string; // Time span the report covers, e.g. "This Week"
+    generator?: string;
+    template?: string;
+    commitHashes: string[];
+    content: string;
+}
+
+const HISTORY_FILE = 'report-history.json';
+
+/**
+ * Generated reports persisted in the extension's global storage, newest first
+ */
+export class ReportHistory {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private entries: ReportHistoryEntry[] | undefined;
+
+    // Writes are chained so concurrent changes cannot overwrite each other
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly storageUri: vscode.Uri) {}
+
+    /**
+     * Get all saved reports, newest first
+     */
+    public async getEntries(): Promise<ReportHistoryEntry[]> {
+        await this.pending;
+        return [...await this.load()];
+    }
+
+    /**
+     * Get a saved report by id
+     */
+    public async getEntry(id: string): Promise<ReportHistoryEntry | undefined> {
+        return (await this.getEntries()).find(entry => entry.id === id);
+    }
+
+    /**
+     * Save a generated report, dropping the oldest ones beyond `reportPilot.historyLimit`
+     */
+    public add(report: ExportableReport): Promise<ReportHistoryEntry> {
+        const entry: ReportHistoryEntry = {
+            id: `${report.generatedAt.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            title: report.title,
+            createdAt: report.generatedAt.toISOString(),
+            period: report.period,
+            generator: report.generator,
+            template: report.template,
+            commitHashes: report.commits.map(commit => commit.hash),
+            content: report.markdown
+        };
+
+        const limit = Math.max(1, vscode.workspace.getConfiguration('reportPilot').get<number>('historyLimit', 50));
+        return this.update(entries => [entry, ...entries].slice(0, limit)).then(() => entry);
+    }
+
+    /**
+     * Replace the text of the saved report that the given report was generated as, e.g. after it was edited.
+     * Reports are matched on title and generation time; reports that are not in the history are ignored.
+     */
+    public updateContent(report: ExportableReport): Promise<void> {
+        const createdAt = report.generatedAt.toISOString();
+        return this.update(entries => entries.map(entry =>
+            entry.createdAt === createdAt && entry.title === report.title ? { ...entry, content: report.markdown } : entry
+        ));
+    }
+
+    /**
+     * Give a saved report a custom name, or remove it with an empty name
+     */
+    public rename(id: string, name: string): Promise<void> {
+        return this.update(entries => entries.map(entry =>
+            entry.id === id ? { ...entry, name: name.trim() || undefined } : entry
+        ));
+    }
+
+    /**
+     * Delete a saved report
+     */
+    public delete(id: string): Promise<void> {
+        return this.update(entries => entries.filter(entry => entry.id !== id));
+    }
+
+    /**
+     * Delete all saved reports
+     */
+    public clear(): Promise<void> {
+        return this.update(() => []);
+    }
+
+    /**
+     * Apply a change to the saved reports and write them back to disk
+     */
+    private update(change: (entries: ReportHistoryEntry[]) => ReportHistoryEntry[]): Promise<void> {
+        const result = this.pending.then(async () => {
+            this.entries = change(await this.load());
+
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this.storageUri, HISTORY_FILE),
+                Buffer.from(JSON.stringify(this.entries, null, 2), 'utf8')
+            );
+            this._onDidChange.fire();
+        });
+
+        // Keep the chain going after a failed write; the caller still sees the error
+        this.pending = result.catch(error => console.error('[Report Pilot] Failed to save report history:', error));
+        return result;
+    }
+
+    /**
+     * Read the saved reports from disk the first time they are needed
+     */
+    private async load(): Promise<ReportHistoryEntry[]> {
+        if (this.entries) {
+            return this.entries;
+        }
+
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, HISTORY_FILE));
+            const parsed = JSON.parse(Buffer.from(data).toString('utf8'));
+            this.entries = Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+            // No history has been saved yet
+            if (!(error instanceof vscode.FileSystemError)) {
+                console.error('[Report Pilot] Failed to read report history:', error);
+            }
+            this.entries = [];
+        }
+
+        return this.entries;
+    }
+}
+
+/**
+ * Turn a saved report back into a report that can be shown and exported.
+ * Only commit hashes are kept in the history, so the commit details are not restored.
+ */
+export function toExportableReport(entry: ReportHistoryEntry): ExportableReport {
+    return {
+        title: entry.title,
+        markdown: entry.content,
+        generatedAt: new Date(entry.createdAt),
+        period: entry.period,
+        generator: entry.generator,
+        template: entry.template,
+        commits: []
+    };
+}
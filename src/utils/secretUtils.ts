@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { AIProviderConfig, getAIProviderConfigs } from './aiProviders';
+
+// Secret storage handed over by the extension context on activation
+let secretStorage: vscode.SecretStorage | null = null;
+
+/**
+ * Initialize secret storage from the extension context
+ */
+export function initializeSecretStorage(secrets: vscode.SecretStorage): void {
+    secretStorage = secrets;
+}
+
+/**
+ * Key under which a provider's API key is stored
+ */
+function getSecretKey(providerId: string): string {
+    return `reportPilot.apiKey.${providerId}`;
+}
+
+/**
+ * Get the API key stored for an AI provider
+ */
+export async function getApiKey(providerId: string): Promise<string | undefined> {
+    if (!secretStorage) {
+        console.error('[Report Pilot] Secret storage is not initialized');
+        return undefined;
+    }
+
+    return await secretStorage.get(getSecretKey(providerId)) || undefined;
+}
+
+/**
+ * Store the API key for an AI provider
+ */
+export async function storeApiKey(providerId: string, apiKey: string): Promise<void> {
+    if (!secretStorage) {
+        throw new Error('Secret storage is not initialized');
+    }
+
+    await secretStorage.store(getSecretKey(providerId), apiKey);
+}
+
+/**
+ * Delete the API key stored for an AI provider
+ */
+export async function deleteApiKey(providerId: string): Promise<void> {
+    if (!secretStorage) {
+        throw new Error('Secret storage is not initialized');
+    }
+
+    await secretStorage.delete(getSecretKey(providerId));
+}
+
+// A provider entry as it may have been written to settings, with a plaintext key
+type ProviderSetting = AIProviderConfig & { apiKey?: string };
+
+// Provider the legacy key is kept for when no OpenAI provider is configured, matching the default provider
+const LEGACY_PROVIDER_ID = 'openai';
+
+/**
+ * Settings scopes API keys may have been written to: user, workspace and each workspace folder
+ */
+function getSettingScopes(): { config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget; scope: 'globalValue' | 'workspaceValue' | 'workspaceFolderValue' }[] {
+    const config = vscode.workspace.getConfiguration('reportPilot');
+    return [
+        { config, target: vscode.ConfigurationTarget.Global, scope: 'globalValue' as const },
+        { config, target: vscode.ConfigurationTarget.Workspace, scope: 'workspaceValue' as const },
+        ...(vscode.workspace.workspaceFolders || []).map(folder => ({
+            config: vscode.workspace.getConfiguration('reportPilot', folder.uri),
+            target: vscode.ConfigurationTarget.WorkspaceFolder,
+            scope: 'workspaceFolderValue' as const
+        }))
+    ];
+}
+
+/**
+ * Store a key from settings. When secure storage already holds a different key for the provider,
+ * the user decides which one to keep; without an answer both stay where they are.
+ * @returns true if the key in settings is no longer needed
+ */
+async function storeApiKeyFromSettings(providerId: string, apiKey: string): Promise<boolean> {
+    try {
+        const storedKey = await getApiKey(providerId);
+        if (storedKey === apiKey) {
+            return true;
+        }
+
+        if (storedKey) {
+            const choice = await vscode.window.showWarningMessage(
+                `The API key for ${providerId} in your settings differs from the one in secure storage. Which one should Report Pilot use?`,
+                'Use Key from Settings',
+                'Keep Stored Key'
+            );
+            if (choice !== 'Use Key from Settings') {
+                return choice === 'Keep Stored Key';
+            }
+        }
+
+        await storeApiKey(providerId, apiKey);
+        return true;
+    } catch (error) {
+        console.error(`[Report Pilot] Failed to store the API key for ${providerId}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Move API keys from plaintext settings into secret storage.
+ * Covers the legacy `reportPilot.openaiApiKey` setting and `apiKey` fields in `reportPilot.aiProviders`.
+ * A setting is only cleared once its key is in secret storage, or the user chose to keep the stored key.
+ */
+export async function migrateApiKeySettings(): Promise<void> {
+    let migrated = 0;
+
+    try {
+        for (const { config, target, scope } of getSettingScopes()) {
+            // The legacy key belonged to every OpenAI provider
+            const legacyKey = config.inspect<string>('openaiApiKey')?.[scope];
+            if (legacyKey) {
+                const openaiProviders = getAIProviderConfigs().filter(p => p.type === 'openai').map(p => p.id);
+                let stored = true;
+                for (const providerId of openaiProviders.length > 0 ? openaiProviders : [LEGACY_PROVIDER_ID]) {
+                    stored = await storeApiKeyFromSettings(providerId, legacyKey) && stored;
+                }
+                if (stored) {
+                    await config.update('openaiApiKey', undefined, target);
+                    migrated++;
+                }
+            }
+
+            // Per-provider keys written directly into the providers list
+            const entries = config.inspect<(ProviderSetting | null)[]>('aiProviders')?.[scope];
+            if (!entries || !entries.some(entry => entry && entry.apiKey && entry.id)) {
+                continue;
+            }
+
+            const cleaned: (ProviderSetting | null)[] = [];
+            for (const entry of entries) {
+                if (entry && entry.apiKey && entry.id && await storeApiKeyFromSettings(entry.id, entry.apiKey)) {
+                    const { apiKey, ...rest } = entry;
+                    cleaned.push(rest);
+                    migrated++;
+                } else {
+                    cleaned.push(entry);
+                }
+            }
+            await config.update('aiProviders', cleaned, target);
+        }
+
+        if (migrated > 0) {
+            vscode.window.showInformationMessage('Report Pilot moved your API keys from settings into secure storage.');
+        }
+    } catch (error) {
+        console.error('[Report Pilot] Failed to migrate API keys to secret storage:', error);
+    }
+}
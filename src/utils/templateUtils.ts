@@ -0,0 +1,372 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import dayjs from 'dayjs';
+import { CommitInfo, categorizeCommitsByType, cleanCommitMessage, getPullRequestLabel, groupCommitsByRepository, summarizeFileChanges } from './gitUtils';
+
+/**
+ * A user-defined report layout
+ */
+export interface ReportTemplate {
+    id: string;
+    label: string;
+    description?: string;
+    content: string;
+}
+
+/**
+ * Template entry in the `reportPilot.reportTemplates` setting.
+ * The layout is either given inline or read from a file.
+ */
+interface TemplateSetting {
+    name: string;
+    description?: string;
+    template?: string;
+    path?: string;
+}
+
+// Workspace folder that holds template files, one template per file
+const TEMPLATE_FOLDER = path.join('.reportpilot', 'templates');
+const TEMPLATE_EXTENSIONS = ['.md', '.txt', '.hbs'];
+
+/**
+ * Load the report templates from every workspace folder's `.reportpilot/templates`
+ * folder and from the `reportPilot.reportTemplates` setting
+ */
+export function getReportTemplates(): ReportTemplate[] {
+    const templates: ReportTemplate[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const templateFolder = path.join(folder.uri.fsPath, TEMPLATE_FOLDER);
+        if (!fs.existsSync(templateFolder)) {
+            continue;
+        }
+
+        try {
+            for (const fileName of fs.readdirSync(templateFolder).sort()) {
+                if (!TEMPLATE_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) {
+                    continue;
+                }
+
+                const filePath = path.join(templateFolder, fileName);
+                templates.push({
+                    id: filePath,
+                    label: path.basename(fileName, path.extname(fileName)),
+                    description: path.join(folder.name, TEMPLATE_FOLDER, fileName),
+                    content: fs.readFileSync(filePath, 'utf8')
+                });
+            }
+        } catch (error) {
+            console.error(`[Report Pilot] Failed to read report templates from ${templateFolder}:`, error);
+        }
+    }
+
+    const settings = vscode.workspace.getConfiguration('reportPilot').get<TemplateSetting[]>('reportTemplates', []);
+    for (const setting of settings) {
+        if (!setting || !setting.name) {
+            continue;
+        }
+
+        try {
+            const content = setting.template ?? fs.readFileSync(resolveTemplatePath(setting.path || ''), 'utf8');
+            templates.push({
+                id: `setting:${setting.name}`,
+                label: setting.name,
+                description: setting.description || 'From settings',
+                content
+            });
+        } catch (error) {
+            console.error(`[Report Pilot] Failed to load report template "${setting.name}":`, error);
+            vscode.window.showWarningMessage(`Could not load report template "${setting.name}": ${error}`);
+        }
+    }
+
+    return templates;
+}
+
+/**
+ * Resolve a template path from settings, expanding `~` and workspace-relative paths
+ */
+function resolveTemplatePath(templatePath: string): string {
+    if (!templatePath) {
+        throw new Error('Template has neither a "template" nor a "path"');
+    }
+    if (templatePath.startsWith('~')) {
+        return path.join(os.homedir(), templatePath.slice(1));
+    }
+    if (!path.isAbsolute(templatePath) && vscode.workspace.workspaceFolders?.length) {
+        return path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, templatePath);
+    }
+    return templatePath;
+}
+
+/**
+ * Render a report template with the data of a set of commits
+ */
+export function renderReportTemplate(template: ReportTemplate, commits: CommitInfo[]): string {
+    return renderTemplate(template.content, createTemplateContext(commits));
+}
+
+/**
+ * Build the data available to report templates
+ */
+export function createTemplateContext(commits: CommitInfo[]): Record<string, unknown> {
+    const dateFormat = vscode.workspace.getConfiguration('reportPilot').get('dateFormat', 'YYYY-MM-DD');
+    const sorted = [...commits].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const toView = (commit: CommitInfo) => ({
+        hash: commit.hash,
+        shortHash: commit.hash.substring(0, 7),
+        message: commit.message,
+        summary: cleanCommitMessage(commit.message),
+        author: commit.author,
+        authorEmail: commit.authorEmail || '',
+        date: dayjs(commit.date).format(dateFormat),
+        time: dayjs(commit.date).format('HH:mm'),
+        branch: commit.branch || '',
+        pullRequest: commit.pullRequest ? getPullRequestLabel(commit.pullRequest) : '',
+        repository: commit.repository || '',
+        files: commit.files || [],
+        filesChanged: (commit.fileChanges || []).length,
+        insertions: commit.insertions || 0,
+        deletions: commit.deletions || 0
+    });
+
+    // Group by an arbitrary key, keeping the chronological order within each group
+    const groupBy = (key: (commit: CommitInfo) => string) => {
+        const groups = new Map<string, CommitInfo[]>();
+        for (const commit of sorted) {
+            const name = key(commit);
+            const group = groups.get(name);
+            if (group) {
+                group.push(commit);
+            } else {
+                groups.set(name, [commit]);
+            }
+        }
+        return Array.from(groups.entries()).map(([name, groupCommits]) => ({
+            name,
+            count: groupCommits.length,
+            commits: groupCommits.map(toView)
+        }));
+    };
+
+    const fileStats = summarizeFileChanges(commits);
+
+    return {
+        generatedAt: dayjs().format(`${dateFormat} HH:mm`),
+        dateRange: {
+            from: sorted.length > 0 ? dayjs(sorted[0].date).format(dateFormat) : '',
+            to: sorted.length > 0 ? dayjs(sorted[sorted.length - 1].date).format(dateFormat) : ''
+        },
+        totals: {
+            commits: commits.length,
+            days: groupBy(commit => dayjs(commit.date).format('YYYY-MM-DD')).length,
+            filesChanged: fileStats.length,
+            insertions: commits.reduce((total, commit) => total + (commit.insertions || 0), 0),
+            deletions: commits.reduce((total, commit) => total + (commit.deletions || 0), 0),
+            repositories: groupCommitsByRepository(commits).size,
+            authors: groupBy(commit => commit.author).length
+        },
+        commits: sorted.map(toView),
+        days: groupBy(commit => dayjs(commit.date).format(dateFormat)).map(day => ({ ...day, date: day.name })),
+        types: Object.entries(categorizeCommitsByType(sorted)).map(([type, typeCommits]) => ({
+            name: type,
+            label: type.charAt(0).toUpperCase() + type.slice(1),
+            count: typeCommits.length,
+            commits: typeCommits.map(toView)
+        })),
+        branches: groupBy(commit => commit.branch || 'unknown'),
+        pullRequests: groupBy(commit => commit.pullRequest ? getPullRequestLabel(commit.pullRequest) : 'none'),
+        repositories: groupBy(commit => commit.repository || 'unknown'),
+        authors: groupBy(commit => commit.author),
+        files: fileStats.slice(0, 20)
+    };
+}
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; path: string }
+    | { kind: 'each' | 'if' | 'unless'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { body: TemplateNode[] }>;
+
+// Tags that only control structure, so a line holding nothing else is dropped from the output
+const STANDALONE_TAG = /^(#|\/|else$|!)/;
+
+/**
+ * Render a template string.
+ *
+ * Supported syntax:
+ * - `{{name}}` and `{{totals.commits}}` insert a value; `{{this}}` is the current loop item
+ * - `{{#each days}}...{{else}}...{{/each}}` loops over a list, with `{{@index}}`, `{{@number}}`,
+ *   `{{@first}}` and `{{@last}}` inside; the `else` part renders when the list is empty
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}` render conditionally
+ * - `{{! comment }}` is dropped
+ *
+ * Names that are not found in the current loop item are looked up in the enclosing ones.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+    return renderNodes(parseTemplate(template), [{ value: context }]);
+}
+
+/**
+ * Parse a template into a tree of text, values and blocks
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const blocks: { node: BlockNode; target: TemplateNode[] }[] = [];
+    let current = root;
+    let cursor = 0;
+
+    const tagPattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(template)) !== null) {
+        const tag = match[1];
+        let textEnd = match.index;
+        let nextCursor = match.index + match[0].length;
+
+        // A structural tag alone on its line takes the whole line with it
+        if (STANDALONE_TAG.test(tag)) {
+            const lineStart = template.lastIndexOf('\n', match.index - 1) + 1;
+            const newline = template.indexOf('\n', nextCursor);
+            const lineEnd = newline === -1 ? template.length : newline + 1;
+            if (lineStart >= cursor
+                && template.slice(lineStart, match.index).trim() === ''
+                && template.slice(nextCursor, lineEnd).trim() === '') {
+                textEnd = lineStart;
+                nextCursor = lineEnd;
+            }
+        }
+
+        if (textEnd > cursor) {
+            current.push({ kind: 'text', text: template.slice(cursor, textEnd) });
+        }
+        cursor = nextCursor;
+        tagPattern.lastIndex = Math.max(tagPattern.lastIndex, nextCursor);
+
+        const open = tag.match(/^#(each|if|unless)\s+(\S+)$/);
+        const close = tag.match(/^\/(each|if|unless)$/);
+        if (tag.startsWith('!')) {
+            continue;
+        } else if (open) {
+            const node: BlockNode = { kind: open[1] as BlockNode['kind'], path: open[2], body: [], otherwise: [] };
+            current.push(node);
+            blocks.push({ node, target: current });
+            current = node.body;
+        } else if (tag === 'else') {
+            const block = blocks[blocks.length - 1];
+            if (!block) {
+                throw new Error(`Template error: {{else}} outside of a block`);
+            }
+            current = block.node.otherwise;
+        } else if (close) {
+            const block = blocks.pop();
+            if (!block || block.node.kind !== close[1]) {
+                throw new Error(`Template error: unexpected {{/${close[1]}}}`);
+            }
+            current = block.target;
+        } else if (/^[#/]/.test(tag)) {
+            throw new Error(`Template error: unknown tag {{${tag}}}`);
+        } else {
+            current.push({ kind: 'value', path: tag });
+        }
+    }
+
+    if (blocks.length > 0) {
+        const block = blocks[blocks.length - 1].node;
+        throw new Error(`Template error: {{#${block.kind} ${block.path}}} is never closed`);
+    }
+
+    if (cursor < template.length) {
+        current.push({ kind: 'text', text: template.slice(cursor) });
+    }
+    return root;
+}
+
+interface TemplateScope {
+    value: unknown;
+    index?: number;
+    length?: number;
+}
+
+/**
+ * Render parsed nodes against a stack of scopes, innermost last
+ */
+function renderNodes(nodes: TemplateNode[], scopes: TemplateScope[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.kind === 'text') {
+            output += node.text;
+        } else if (node.kind === 'value') {
+            output += formatTemplateValue(lookupTemplateValue(node.path, scopes));
+        } else if (node.kind === 'each') {
+            const value = lookupTemplateValue(node.path, scopes);
+            const items = Array.isArray(value) ? value : [];
+            output += items.length > 0
+                ? items.map((item, index) => renderNodes(node.body, [...scopes, { value: item, index, length: items.length }])).join('')
+                : renderNodes(node.otherwise, scopes);
+        } else {
+            const truthy = isTemplateTruthy(lookupTemplateValue(node.path, scopes));
+            output += renderNodes(truthy === (node.kind === 'if') ? node.body : node.otherwise, scopes);
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Resolve a dotted name, searching from the innermost scope outwards
+ */
+function lookupTemplateValue(name: string, scopes: TemplateScope[]): unknown {
+    const scope = scopes[scopes.length - 1];
+    switch (name) {
+        case 'this':
+        case '.':
+            return scope.value;
+        case '@index':
+            return scope.index;
+        case '@number':
+            return scope.index !== undefined ? scope.index + 1 : undefined;
+        case '@first':
+            return scope.index === 0;
+        case '@last':
+            return scope.index !== undefined && scope.index === (scope.length || 0) - 1;
+    }
+
+    const [first, ...rest] = name.replace(/^this\./, '').split('.');
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const value = scopes[i].value;
+        if (value !== null && typeof value === 'object' && first in (value as object)) {
+            return rest.reduce<unknown>(
+                (current, key) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+                (value as Record<string, unknown>)[first]
+            );
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Lists count as true when they have items
+ */
+function isTemplateTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * Turn a template value into output text
+ */
+function formatTemplateValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(formatTemplateValue).join(', ');
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}